@@ -0,0 +1,163 @@
+import type { AudioFileInput, UploadProgress } from "./types";
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+};
+
+// Blob.slice exists in every runtime but is missing from the global Blob typings
+type SliceableBlob = Blob & { slice(start: number, end: number): Blob };
+
+export interface ResolvedAudioFile {
+  data: Buffer | Blob | ReadableStream<Uint8Array>;
+  contentType: string;
+  title?: string;
+  /** File name without its extension, if known */
+  name?: string;
+}
+
+/**
+ * Read an audio path into memory and work out the name and content type
+ */
+export async function resolveAudioFile(
+  input: AudioFileInput,
+): Promise<ResolvedAudioFile> {
+  const { file, title, contentType } =
+    typeof input === "string" ||
+    input instanceof Blob ||
+    input instanceof ReadableStream ||
+    Buffer.isBuffer(input)
+      ? { file: input, title: undefined, contentType: undefined }
+      : input;
+
+  let data: ResolvedAudioFile["data"];
+  let fileName: string | undefined;
+  if (typeof file === "string") {
+    const { readFile } = await import("node:fs/promises");
+    data = await readFile(file);
+    fileName = file.split(/[\\/]/).pop();
+  } else {
+    data = file;
+    fileName = "name" in file ? (file.name as string) : undefined;
+  }
+
+  const extension = fileName?.match(/\.([^.]+)$/)?.[1]?.toLowerCase();
+  return {
+    data,
+    title,
+    name: fileName?.replace(/\.[^.]+$/, ""),
+    contentType:
+      contentType ||
+      (extension && AUDIO_CONTENT_TYPES[extension]) ||
+      (data instanceof Blob && data.type) ||
+      (await sniffContentType(data)) ||
+      "audio/mpeg",
+  };
+}
+
+/**
+ * Detect the audio format from the first bytes of the data
+ * Streams are not read, so they can still be uploaded afterwards
+ */
+async function sniffContentType(
+  data: ResolvedAudioFile["data"],
+): Promise<string | undefined> {
+  if (data instanceof ReadableStream) {
+    return undefined;
+  }
+  const bytes =
+    data instanceof Blob
+      ? new Uint8Array(await (data as SliceableBlob).slice(0, 12).arrayBuffer())
+      : data.subarray(0, 12);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") {
+    return "audio/wav";
+  }
+  if (ascii(4, 8) === "ftyp") {
+    return "audio/mp4";
+  }
+  if (ascii(0, 4) === "OggS") {
+    return "audio/ogg";
+  }
+  if (ascii(0, 4) === "fLaC") {
+    return "audio/flac";
+  }
+  const sync = bytes[0] === 0xff ? (bytes[1] ?? 0) : 0;
+  // ADTS frame header, which shares the MPEG frame sync bits
+  if ((sync & 0xf6) === 0xf0) {
+    return "audio/aac";
+  }
+  if (ascii(0, 3) === "ID3" || sync >= 0xe0) {
+    return "audio/mpeg";
+  }
+  return undefined;
+}
+
+/**
+ * Wrap upload data so onProgress hears about the bytes sent
+ * Streams report each chunk as fetch reads it; Buffers and Blobs are sent
+ * in one piece, so they report once before and once after the upload
+ */
+export function trackUploadProgress(
+  data: ResolvedAudioFile["data"],
+  onProgress?: (progress: UploadProgress) => void,
+): { body: ResolvedAudioFile["data"]; done: () => void } {
+  if (!onProgress) {
+    return { body: data, done: () => {} };
+  }
+
+  if (data instanceof ReadableStream) {
+    let loaded = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.byteLength;
+        controller.enqueue(chunk);
+        onProgress({ loaded });
+      },
+    });
+    return { body: data.pipeThrough(counter), done: () => {} };
+  }
+
+  const total = data instanceof Blob ? data.size : data.byteLength;
+  onProgress({ loaded: 0, total });
+  return { body: data, done: () => onProgress({ loaded: total, total }) };
+}
+
+/**
+ * Run fn over items with at most limit calls in flight, keeping input order
+ * Stops starting new calls after the first failure and rejects with it
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker,
+  );
+  await Promise.all(workers);
+  return results;
+}
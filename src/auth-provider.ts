@@ -1,5 +1,12 @@
-import { isTokenExpired, refreshAccessToken } from "./auth.ts";
-import type { TokenResponse } from "./types/common.ts";
+import {
+  getTokenExpiry,
+  refreshAccessToken,
+  revokeRefreshToken,
+} from "./auth.ts";
+import { YotoAuthenticationError } from "./error.ts";
+import { logEvent } from "./logger.ts";
+import type { TokenStore } from "./token-store.ts";
+import type { FetchLike, Logger, TokenResponse } from "./types/common.ts";
 
 /**
  * Interface for authentication providers
@@ -11,6 +18,13 @@ export interface AuthProvider {
    * Implementations should handle token refresh automatically
    */
   getAccessToken(): Promise<string>;
+
+  /**
+   * Optional: mark an access token as rejected by the API
+   * When implemented, the HTTP client calls this on a 401 and replays the request once
+   * @param accessToken - The token that was rejected
+   */
+  invalidate?(accessToken: string): void | Promise<void>;
 }
 
 /**
@@ -25,31 +39,309 @@ export class StaticTokenProvider implements AuthProvider {
   }
 }
 
+/**
+ * Why a token set stopped being usable
+ * - refresh_rejected: the auth server refused the refresh token
+ * - revoked: the provider was logged out
+ */
+export type TokenInvalidReason = "refresh_rejected" | "revoked";
+
+export interface RefreshableAuthProviderOptions {
+  fetch?: FetchLike;
+  logger?: Logger;
+  /** Extra parameters to send when refreshing */
+  tokenParams?: Record<string, string>;
+  /** Refresh this many milliseconds before expiry to tolerate clock skew (default: 30000) */
+  expiryBuffer?: number;
+  /** Refresh on a timer ahead of expiry instead of on the next request (default: false) */
+  backgroundRefresh?: boolean;
+  /** Persists tokens every time they are refreshed */
+  tokenStore?: TokenStore;
+  /** Called with the new token set after every successful refresh */
+  onTokensRefreshed?: (tokens: TokenResponse) => void | Promise<void>;
+  /** Called when a refresh attempt fails for any reason */
+  onRefreshFailed?: (error: Error) => void | Promise<void>;
+  /** Called when the tokens can no longer be used and the user must sign in again */
+  onTokensInvalid?: (
+    reason: TokenInvalidReason,
+    error?: Error,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Provider options accepted by the auth clients' createProvider methods
+ */
+export type CreateProviderOptions = Omit<
+  RefreshableAuthProviderOptions,
+  "fetch" | "logger" | "tokenParams"
+>;
+
+/** Delay before retrying a background refresh that failed for a transient reason */
+const BACKGROUND_RETRY_DELAY = 30000;
+
+/** Longest delay setTimeout supports */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/** Shortest background refresh delay, so tokens that expire on arrival can't spin the timer */
+const MIN_TIMER_DELAY = 1000;
+
 /**
  * Refreshable auth provider with automatic token refresh
  * Works with both device and browser auth flows
  */
 export class RefreshableAuthProvider implements AuthProvider {
-  private tokens: TokenResponse;
+  private tokens!: TokenResponse;
+  private expiresAt?: number;
+  private refreshAt?: number;
+  private refreshPromise?: Promise<void>;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private stale = false;
+  private disposed = false;
+  private loggedOut = false;
 
   constructor(
     private readonly authBaseUrl: string,
     private readonly clientId: string,
     private readonly timeout: number,
     tokens: TokenResponse,
+    private readonly options: RefreshableAuthProviderOptions = {},
   ) {
-    this.tokens = tokens;
+    this.setTokens(tokens);
   }
 
   async getAccessToken(): Promise<string> {
-    if (isTokenExpired(this.tokens.access_token)) {
-      this.tokens = await refreshAccessToken(
+    this.assertLoggedIn();
+    if (this.stale || this.isExpired()) {
+      await this.refresh();
+    }
+    return this.tokens.access_token;
+  }
+
+  /**
+   * Sign out: revoke the refresh token, clear the token store and stop refreshing
+   * Local state is cleared even if revocation fails; later getAccessToken and
+   * getTokens calls reject
+   */
+  async logout(): Promise<void> {
+    if (this.loggedOut) {
+      return;
+    }
+    this.loggedOut = true;
+    this.dispose();
+    // Let an in-flight refresh finish so a rotated refresh token is revoked too
+    await this.refreshPromise?.catch(() => {});
+    const { tokenStore, logger, onTokensInvalid } = this.options;
+    try {
+      await revokeRefreshToken(
         this.authBaseUrl,
         this.clientId,
         this.tokens.refresh_token,
         this.timeout,
+        { fetch: this.options.fetch },
       );
+      logEvent(logger, "info", "token.revoked");
+    } finally {
+      try {
+        await tokenStore?.clear();
+      } catch (error) {
+        logEvent(logger, "error", "token.store.failure", { error });
+      }
+      await this.notify("onTokensInvalid", () => onTokensInvalid?.("revoked"));
+    }
+  }
+
+  /**
+   * Force a refresh on the next getAccessToken call
+   * Ignored if the rejected token has already been replaced, so concurrent 401s refresh once
+   * @param accessToken - The token that was rejected
+   */
+  invalidate(accessToken: string): void {
+    if (accessToken === this.tokens.access_token) {
+      this.stale = true;
+    }
+  }
+
+  /**
+   * Get a copy of the current token set, e.g. to save it elsewhere
+   * @throws YotoAuthenticationError after logout
+   */
+  getTokens(): TokenResponse {
+    this.assertLoggedIn();
+    return { ...this.tokens };
+  }
+
+  /**
+   * Stop the background refresh timer
+   */
+  dispose(): void {
+    this.disposed = true;
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  private assertLoggedIn(): void {
+    if (this.loggedOut) {
+      throw new YotoAuthenticationError(
+        "Logged out. Sign in again to get new tokens.",
+        "logged_out",
+      );
+    }
+  }
+
+  /**
+   * Store a new token set and work out when it expires
+   * Falls back to expires_in when the access token is not a JWT with an exp claim
+   * The expiry buffer is capped at half the token's lifetime so short-lived
+   * tokens are still used before being refreshed
+   */
+  private setTokens(tokens: TokenResponse): void {
+    const now = Date.now();
+    this.tokens = tokens;
+    this.expiresAt =
+      getTokenExpiry(tokens.access_token) ??
+      (tokens.expires_in ? now + tokens.expires_in * 1000 : undefined);
+    if (this.expiresAt !== undefined) {
+      const lifetime = Math.max(0, this.expiresAt - now);
+      const buffer = Math.min(this.options.expiryBuffer ?? 30000, lifetime / 2);
+      this.refreshAt = this.expiresAt - buffer;
+    } else {
+      this.refreshAt = undefined;
+    }
+    this.scheduleRefresh();
+  }
+
+  private isExpired(): boolean {
+    if (this.refreshAt === undefined) {
+      return true;
+    }
+    return this.refreshAt <= Date.now();
+  }
+
+  /**
+   * Arm the background refresh timer for just before the current token expires
+   */
+  private scheduleRefresh(): void {
+    if (!this.options.backgroundRefresh || this.disposed) {
+      return;
+    }
+    if (this.refreshAt === undefined) {
+      return;
+    }
+    const delay = Math.max(MIN_TIMER_DELAY, this.refreshAt - Date.now());
+    this.startTimer(Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private startTimer(delay: number): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refreshInBackground(), delay);
+    // Don't keep the process alive just to refresh tokens
+    (this.refreshTimer as { unref?: () => void }).unref?.();
+  }
+
+  private async refreshInBackground(): Promise<void> {
+    this.refreshTimer = undefined;
+    if (!this.isExpired()) {
+      // Timer was clamped to the longest supported delay
+      this.scheduleRefresh();
+      return;
+    }
+    try {
+      await this.refresh();
+    } catch (error) {
+      // Already logged and reported; retry unless the refresh token was rejected
+      if (!(error instanceof YotoAuthenticationError) && !this.disposed) {
+        this.startTimer(BACKGROUND_RETRY_DELAY);
+      }
+    }
+  }
+
+  /**
+   * Refresh tokens, sharing one in-flight request between concurrent callers
+   * A failed refresh rejects every waiting caller with the same error
+   */
+  private refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<void> {
+    const { logger } = this.options;
+    logEvent(logger, "info", "token.refresh.start", {
+      refreshToken: this.tokens.refresh_token,
+    });
+    let tokens: TokenResponse;
+    try {
+      tokens = await refreshAccessToken(
+        this.authBaseUrl,
+        this.clientId,
+        this.tokens.refresh_token,
+        this.timeout,
+        { fetch: this.options.fetch, tokenParams: this.options.tokenParams },
+      );
+    } catch (error) {
+      logEvent(logger, "error", "token.refresh.failure", { error });
+      const { onRefreshFailed, onTokensInvalid } = this.options;
+      await this.notify("onRefreshFailed", () =>
+        onRefreshFailed?.(error as Error),
+      );
+      if (error instanceof YotoAuthenticationError) {
+        await this.notify("onTokensInvalid", () =>
+          onTokensInvalid?.("refresh_rejected", error),
+        );
+      }
+      throw error;
+    }
+    // Don't bring the session back if logout happened mid-refresh, but keep
+    // the new refresh token so logout can revoke it
+    if (this.loggedOut) {
+      this.tokens = tokens;
+    }
+    this.assertLoggedIn();
+    this.setTokens(tokens);
+    this.stale = false;
+    logEvent(logger, "info", "token.refresh.success", {
+      expiresIn: this.tokens.expires_in,
+    });
+    await this.persist();
+    await this.notify("onTokensRefreshed", () =>
+      this.options.onTokensRefreshed?.(this.getTokens()),
+    );
+  }
+
+  /**
+   * Invoke a lifecycle callback, logging rather than throwing its errors
+   */
+  private async notify(
+    name: string,
+    callback: () => void | Promise<void>,
+  ): Promise<void> {
+    try {
+      await callback();
+    } catch (error) {
+      logEvent(this.options.logger, "error", "token.callback.failure", {
+        callback: name,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Save the current tokens to the token store, if one is configured
+   * A failed save is logged rather than thrown so the refreshed token can still be used
+   */
+  private async persist(): Promise<void> {
+    const { tokenStore, logger } = this.options;
+    if (!tokenStore) {
+      return;
+    }
+    try {
+      await tokenStore.save(this.tokens);
+    } catch (error) {
+      logEvent(logger, "error", "token.store.failure", { error });
     }
-    return this.tokens.access_token;
   }
 }
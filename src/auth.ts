@@ -1,18 +1,60 @@
-import { RefreshableAuthProvider } from "./auth-provider.ts";
+import {
+  type CreateProviderOptions,
+  RefreshableAuthProvider,
+} from "./auth-provider.ts";
 import {
   YotoAPIError,
   YotoAuthenticationError,
   YotoConnectionError,
+  YotoOAuthError,
 } from "./error.ts";
+import { logEvent } from "./logger.ts";
+import { sleep } from "./sleep.ts";
+import type { TokenStore } from "./token-store.ts";
 import type {
   AuthConfig,
+  AuthorizationCallbackExpected,
+  AuthorizationUrl,
   DeviceCodeResponse,
+  DevicePollStatus,
+  FetchLike,
+  Logger,
+  PollForTokenOptions,
   TokenResponse,
 } from "./types/common.ts";
 
 const DEFAULT_AUTH_BASE_URL = "https://login.yotoplay.com";
 const DEFAULT_API_AUDIENCE = "https://api.yotoplay.com";
 const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_SCOPES = ["openid", "profile", "email", "offline_access"];
+
+/**
+ * Resolve the global fetch at call time so it can still be swapped out
+ */
+const globalFetch: FetchLike = (input, init) => fetch(input, init);
+
+export interface DeviceLoginOptions
+  extends Omit<PollForTokenOptions, "expiresIn"> {
+  /** Show the user where to go and which code to enter */
+  onCode: (deviceCode: DeviceCodeResponse) => void | Promise<void>;
+  /** Options for the returned provider; tokens are saved to its tokenStore */
+  providerOptions?: CreateProviderOptions;
+}
+
+export interface InitiateDeviceLoginOptions {
+  /** Cancel the request when aborted */
+  signal?: AbortSignal;
+}
+
+export interface RevokeTokenOptions {
+  fetch?: FetchLike;
+}
+
+export interface RefreshAccessTokenOptions {
+  fetch?: FetchLike;
+  /** Extra parameters to send to the token endpoint */
+  tokenParams?: Record<string, string>;
+}
 
 /**
  * Base64URL encoding without padding
@@ -26,6 +68,16 @@ function base64UrlEncode(buffer: ArrayBuffer): string {
   return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
 }
 
+/**
+ * Build a form body, with the request's own params taking precedence over extra ones
+ */
+function formParams(
+  params: Record<string, string>,
+  extra?: Record<string, string>,
+): URLSearchParams {
+  return new URLSearchParams({ ...extra, ...params });
+}
+
 /**
  * Generate random string for PKCE
  */
@@ -70,17 +122,60 @@ function decodeJWT(token: string): {
 }
 
 /**
- * Check if token is expired (with 30s buffer)
+ * Get the expiry time of a JWT access token in milliseconds, if it has one
  */
-export function isTokenExpired(accessToken: string): boolean {
+export function getTokenExpiry(accessToken: string): number | undefined {
   try {
     const decoded = decodeJWT(accessToken);
-    if (!decoded.exp) {
-      return true;
-    }
-    return decoded.exp * 1000 < Date.now() + 30000;
+    return decoded.exp ? decoded.exp * 1000 : undefined;
   } catch {
-    return true;
+    return undefined;
+  }
+}
+
+/**
+ * Revoke a refresh token so it can no longer be used
+ */
+export async function revokeRefreshToken(
+  authBaseUrl: string,
+  clientId: string,
+  refreshToken: string,
+  timeout: number,
+  options: RevokeTokenOptions = {},
+): Promise<void> {
+  const url = `${authBaseUrl}/oauth/revoke`;
+  const fetchImpl = options.fetch || globalFetch;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetchImpl(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        client_id: clientId,
+        token: refreshToken,
+      }),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new YotoAuthenticationError(
+        `Token revocation failed: ${errorText}`,
+      );
+    }
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof YotoAuthenticationError) {
+      throw error;
+    }
+    throw new YotoConnectionError(`Token revocation request failed: ${error}`);
   }
 }
 
@@ -92,23 +187,28 @@ export async function refreshAccessToken(
   clientId: string,
   refreshToken: string,
   timeout: number,
+  options: RefreshAccessTokenOptions = {},
 ): Promise<TokenResponse> {
   const url = `${authBaseUrl}/oauth/token`;
+  const fetchImpl = options.fetch || globalFetch;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchImpl(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
       },
-      body: new URLSearchParams({
-        grant_type: "refresh_token",
-        client_id: clientId,
-        refresh_token: refreshToken,
-      }),
+      body: formParams(
+        {
+          grant_type: "refresh_token",
+          client_id: clientId,
+          refresh_token: refreshToken,
+        },
+        options.tokenParams,
+      ),
       signal: controller.signal,
     });
 
@@ -122,7 +222,8 @@ export async function refreshAccessToken(
     const data = (await response.json()) as Record<string, unknown>;
     return {
       access_token: data.access_token as string,
-      refresh_token: data.refresh_token as string,
+      // Servers that don't rotate refresh tokens leave it out; keep the current one
+      refresh_token: (data.refresh_token as string | undefined) ?? refreshToken,
       expires_in: data.expires_in as number,
       token_type: data.token_type as string,
     };
@@ -143,51 +244,122 @@ export class YotoDeviceAuth {
   private readonly authBaseUrl: string;
   private readonly apiAudience: string;
   private readonly timeout: number;
+  private readonly scope: string;
+  private readonly authorizeParams?: Record<string, string>;
+  private readonly tokenParams?: Record<string, string>;
+  private readonly fetch: FetchLike;
+  private readonly logger?: Logger;
 
   constructor(clientId: string, config?: AuthConfig) {
     this.clientId = clientId;
     this.authBaseUrl = config?.authBaseUrl || DEFAULT_AUTH_BASE_URL;
     this.apiAudience = config?.apiAudience || DEFAULT_API_AUDIENCE;
     this.timeout = config?.timeout || DEFAULT_TIMEOUT;
+    this.scope = (config?.scopes || DEFAULT_SCOPES).join(" ");
+    this.authorizeParams = config?.authorizeParams;
+    this.tokenParams = config?.tokenParams;
+    this.fetch = config?.fetch || globalFetch;
+    this.logger = config?.logger;
   }
 
   /**
    * Create an auth provider with automatic token refresh
    */
-  createProvider(tokens: TokenResponse): RefreshableAuthProvider {
+  createProvider(
+    tokens: TokenResponse,
+    options: CreateProviderOptions = {},
+  ): RefreshableAuthProvider {
     return new RefreshableAuthProvider(
       this.authBaseUrl,
       this.clientId,
       this.timeout,
       tokens,
+      {
+        ...options,
+        fetch: this.fetch,
+        logger: this.logger,
+        tokenParams: this.tokenParams,
+      },
+    );
+  }
+
+  /**
+   * Create an auth provider from tokens saved in a token store
+   * @returns The provider, or undefined if the store holds no tokens
+   */
+  async restoreProvider(
+    tokenStore: TokenStore,
+    options: Omit<CreateProviderOptions, "tokenStore"> = {},
+  ): Promise<RefreshableAuthProvider | undefined> {
+    const tokens = await tokenStore.load();
+    return tokens
+      ? this.createProvider(tokens, { ...options, tokenStore })
+      : undefined;
+  }
+
+  /**
+   * Revoke a refresh token on the auth server
+   */
+  async revoke(refreshToken: string): Promise<void> {
+    await revokeRefreshToken(
+      this.authBaseUrl,
+      this.clientId,
+      refreshToken,
+      this.timeout,
+      { fetch: this.fetch },
     );
+    logEvent(this.logger, "info", "token.revoked");
+  }
+
+  /**
+   * Sign out using tokens saved in a token store: revoke them and clear the store
+   * The store is cleared even if revocation fails
+   */
+  async logout(tokenStore: TokenStore): Promise<void> {
+    const tokens = await tokenStore.load();
+    try {
+      if (tokens) {
+        await this.revoke(tokens.refresh_token);
+      }
+    } finally {
+      await tokenStore.clear();
+    }
   }
 
   /**
    * Initialize device login and get verification URL/code
+   * @param options.signal - Cancel the request when aborted
    */
-  async initiateDeviceLogin(): Promise<DeviceCodeResponse> {
+  async initiateDeviceLogin(
+    options: InitiateDeviceLoginOptions = {},
+  ): Promise<DeviceCodeResponse> {
     const url = `${this.authBaseUrl}/oauth/device/code`;
+    const { signal } = options;
+    signal?.throwIfAborted();
 
+    // Abort on either the request timeout or the caller's signal
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const abortFromCaller = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abortFromCaller, { once: true });
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: "POST",
         headers: {
           "Content-Type": "application/x-www-form-urlencoded",
         },
-        body: new URLSearchParams({
-          client_id: this.clientId,
-          scope: "openid profile email offline_access",
-          audience: this.apiAudience,
-        }),
+        body: formParams(
+          {
+            client_id: this.clientId,
+            scope: this.scope,
+            audience: this.apiAudience,
+          },
+          this.authorizeParams,
+        ),
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         const errorText = await response.text();
         throw new YotoAuthenticationError(
@@ -196,7 +368,7 @@ export class YotoDeviceAuth {
       }
 
       const data = (await response.json()) as Record<string, unknown>;
-      return {
+      const deviceCode: DeviceCodeResponse = {
         device_code: data.device_code as string,
         user_code: data.user_code as string,
         verification_uri: data.verification_uri as string,
@@ -204,45 +376,107 @@ export class YotoDeviceAuth {
         interval: (data.interval as number) || 5,
         expires_in: (data.expires_in as number) || 300,
       };
+      logEvent(this.logger, "info", "device_login.initiated", {
+        ...deviceCode,
+      });
+      return deviceCode;
     } catch (error) {
-      clearTimeout(timeoutId);
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       if (error instanceof YotoAuthenticationError) {
         throw error;
       }
       throw new YotoConnectionError(`Device login request failed: ${error}`);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", abortFromCaller);
     }
   }
 
+  /**
+   * Run the whole device login: initiate, show the code, poll and create a provider
+   * @param options.onCode - Display the verification URL and user code
+   */
+  async login(options: DeviceLoginOptions): Promise<RefreshableAuthProvider> {
+    const { onCode, providerOptions, ...pollOptions } = options;
+    const { signal } = pollOptions;
+    const deviceCode = await this.initiateDeviceLogin({ signal });
+    await onCode(deviceCode);
+    signal?.throwIfAborted();
+
+    const tokens = await this.pollForToken(
+      deviceCode.device_code,
+      deviceCode.interval,
+      { ...pollOptions, expiresIn: deviceCode.expires_in },
+    );
+    await providerOptions?.tokenStore?.save(tokens);
+    return this.createProvider(tokens, providerOptions);
+  }
+
   /**
    * Poll for tokens after user completes authorization
+   * @param options.signal - Stop polling when aborted
+   * @param options.expiresIn - Give up once the device code expires
    */
-  async pollForToken(deviceCode: string, interval = 5): Promise<TokenResponse> {
+  async pollForToken(
+    deviceCode: string,
+    interval = 5,
+    options: PollForTokenOptions = {},
+  ): Promise<TokenResponse> {
     const url = `${this.authBaseUrl}/oauth/token`;
+    const { signal } = options;
+    const deadline =
+      options.expiresIn !== undefined
+        ? Date.now() + options.expiresIn * 1000
+        : undefined;
     let intervalMs = interval * 1000;
 
+    const status = (): DevicePollStatus => ({
+      intervalMs,
+      remainingMs:
+        deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined,
+    });
+    const expired = () =>
+      new YotoAuthenticationError(
+        "Device code has expired. Please restart the device login process.",
+        "expired_token",
+      );
+
     while (true) {
+      signal?.throwIfAborted();
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw expired();
+      }
+
+      // Abort on either the request timeout or the caller's signal
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      const abortFromCaller = () => controller.abort(signal?.reason);
+      signal?.addEventListener("abort", abortFromCaller, { once: true });
 
+      let wait: "pending" | "slow_down";
       try {
-        const response = await fetch(url, {
+        const response = await this.fetch(url, {
           method: "POST",
           headers: {
             "Content-Type": "application/x-www-form-urlencoded",
           },
-          body: new URLSearchParams({
-            grant_type: "urn:ietf:params:oauth:grant-type:device_code",
-            device_code: deviceCode,
-            client_id: this.clientId,
-            audience: this.apiAudience,
-          }),
+          body: formParams(
+            {
+              grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+              device_code: deviceCode,
+              client_id: this.clientId,
+              audience: this.apiAudience,
+            },
+            this.tokenParams,
+          ),
           signal: controller.signal,
         });
 
-        clearTimeout(timeoutId);
-
         if (response.ok) {
           const data = (await response.json()) as Record<string, unknown>;
+          logEvent(this.logger, "info", "device_login.complete");
           return {
             access_token: data.access_token as string,
             refresh_token: data.refresh_token as string,
@@ -255,34 +489,27 @@ export class YotoDeviceAuth {
           const errorData = (await response.json()) as Record<string, unknown>;
 
           if (errorData.error === "authorization_pending") {
-            await this.sleep(intervalMs);
-            continue;
-          }
-
-          if (errorData.error === "slow_down") {
-            intervalMs += 5000;
-            await this.sleep(intervalMs);
-            continue;
-          }
-
-          if (errorData.error === "expired_token") {
+            wait = "pending";
+          } else if (errorData.error === "slow_down") {
+            wait = "slow_down";
+          } else if (errorData.error === "expired_token") {
+            throw expired();
+          } else {
             throw new YotoAuthenticationError(
-              "Device code has expired. Please restart the device login process.",
+              (errorData.error_description as string) ||
+                (errorData.error as string),
             );
           }
-
-          throw new YotoAuthenticationError(
-            (errorData.error_description as string) ||
-              (errorData.error as string),
+        } else {
+          throw new YotoAPIError(
+            `Token request failed: ${response.statusText}`,
+            response.status,
           );
         }
-
-        throw new YotoAPIError(
-          `Token request failed: ${response.statusText}`,
-          response.status,
-        );
       } catch (error) {
-        clearTimeout(timeoutId);
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
         if (
           error instanceof YotoAuthenticationError ||
           error instanceof YotoAPIError
@@ -290,12 +517,28 @@ export class YotoDeviceAuth {
           throw error;
         }
         throw new YotoConnectionError(`Token polling failed: ${error}`);
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", abortFromCaller);
       }
-    }
-  }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+      if (wait === "slow_down") {
+        intervalMs += 5000;
+        logEvent(this.logger, "info", "device_login.slow_down", {
+          intervalMs,
+        });
+        options.onSlowDown?.(status());
+      } else {
+        logEvent(this.logger, "debug", "device_login.pending", {
+          intervalMs,
+        });
+        options.onPending?.(status());
+      }
+
+      // Don't sleep past the deadline just to find the code has expired
+      const remainingMs = status().remainingMs ?? intervalMs;
+      await sleep(Math.min(intervalMs, remainingMs), signal);
+    }
   }
 }
 
@@ -308,6 +551,11 @@ export class YotoBrowserAuth {
   private readonly authBaseUrl: string;
   private readonly apiAudience: string;
   private readonly timeout: number;
+  private readonly scope: string;
+  private readonly authorizeParams?: Record<string, string>;
+  private readonly tokenParams?: Record<string, string>;
+  private readonly fetch: FetchLike;
+  private readonly logger?: Logger;
 
   constructor(clientId: string, redirectUri: string, config?: AuthConfig) {
     this.clientId = clientId;
@@ -315,40 +563,168 @@ export class YotoBrowserAuth {
     this.authBaseUrl = config?.authBaseUrl || DEFAULT_AUTH_BASE_URL;
     this.apiAudience = config?.apiAudience || DEFAULT_API_AUDIENCE;
     this.timeout = config?.timeout || DEFAULT_TIMEOUT;
+    this.scope = (config?.scopes || DEFAULT_SCOPES).join(" ");
+    this.authorizeParams = config?.authorizeParams;
+    this.tokenParams = config?.tokenParams;
+    this.fetch = config?.fetch || globalFetch;
+    this.logger = config?.logger;
   }
 
   /**
    * Create an auth provider with automatic token refresh
    */
-  createProvider(tokens: TokenResponse): RefreshableAuthProvider {
+  createProvider(
+    tokens: TokenResponse,
+    options: CreateProviderOptions = {},
+  ): RefreshableAuthProvider {
     return new RefreshableAuthProvider(
       this.authBaseUrl,
       this.clientId,
       this.timeout,
       tokens,
+      {
+        ...options,
+        fetch: this.fetch,
+        logger: this.logger,
+        tokenParams: this.tokenParams,
+      },
     );
   }
 
   /**
-   * Generate authorization URL with PKCE challenge
+   * Create an auth provider from tokens saved in a token store
+   * @returns The provider, or undefined if the store holds no tokens
+   */
+  async restoreProvider(
+    tokenStore: TokenStore,
+    options: Omit<CreateProviderOptions, "tokenStore"> = {},
+  ): Promise<RefreshableAuthProvider | undefined> {
+    const tokens = await tokenStore.load();
+    return tokens
+      ? this.createProvider(tokens, { ...options, tokenStore })
+      : undefined;
+  }
+
+  /**
+   * Revoke a refresh token on the auth server
    */
-  async generateAuthUrl(): Promise<{ url: string; codeVerifier: string }> {
+  async revoke(refreshToken: string): Promise<void> {
+    await revokeRefreshToken(
+      this.authBaseUrl,
+      this.clientId,
+      refreshToken,
+      this.timeout,
+      { fetch: this.fetch },
+    );
+    logEvent(this.logger, "info", "token.revoked");
+  }
+
+  /**
+   * Sign out using tokens saved in a token store: revoke them and clear the store
+   * The store is cleared even if revocation fails
+   */
+  async logout(tokenStore: TokenStore): Promise<void> {
+    const tokens = await tokenStore.load();
+    try {
+      if (tokens) {
+        await this.revoke(tokens.refresh_token);
+      }
+    } finally {
+      await tokenStore.clear();
+    }
+  }
+
+  /**
+   * Generate authorization URL with PKCE challenge, state and nonce
+   * Store everything but the URL until the redirect comes back
+   * @param options.state - Use this state instead of a random one
+   * @param options.nonce - Use this nonce instead of a random one
+   * @param options.authorizeParams - Extra parameters for this login, e.g. login_hint
+   */
+  async generateAuthUrl(
+    options: {
+      state?: string;
+      nonce?: string;
+      authorizeParams?: Record<string, string>;
+    } = {},
+  ): Promise<AuthorizationUrl> {
     const codeVerifier = generateRandomString(128);
     const codeChallenge = await generatePKCEChallenge(codeVerifier);
-
-    const params = new URLSearchParams({
-      audience: this.apiAudience,
-      scope: "openid profile email offline_access",
-      response_type: "code",
-      client_id: this.clientId,
-      code_challenge: codeChallenge,
-      code_challenge_method: "S256",
-      redirect_uri: this.redirectUri,
-    });
+    const state = options.state || generateRandomString(32);
+    const nonce = options.nonce || generateRandomString(32);
+
+    const params = formParams(
+      {
+        audience: this.apiAudience,
+        scope: this.scope,
+        response_type: "code",
+        client_id: this.clientId,
+        code_challenge: codeChallenge,
+        code_challenge_method: "S256",
+        redirect_uri: this.redirectUri,
+        state,
+        nonce,
+      },
+      { ...this.authorizeParams, ...options.authorizeParams },
+    );
 
     const url = `${this.authBaseUrl}/authorize?${params.toString()}`;
 
-    return { url, codeVerifier };
+    return { url, codeVerifier, state, nonce };
+  }
+
+  /**
+   * Handle the redirect back from the authorization server
+   * Checks the state, surfaces OAuth errors, exchanges the code and checks the ID token nonce
+   * @param callbackUrl - The full redirect URL, including its query string
+   * @param expected - Values returned by generateAuthUrl
+   */
+  async handleCallback(
+    callbackUrl: string | URL,
+    expected: AuthorizationCallbackExpected,
+  ): Promise<TokenResponse> {
+    const params = new URL(callbackUrl).searchParams;
+    if (params.get("state") !== expected.state) {
+      throw new YotoAuthenticationError(
+        "Authorization callback state does not match",
+        "state_mismatch",
+      );
+    }
+
+    const error = params.get("error");
+    if (error) {
+      throw new YotoOAuthError(
+        error,
+        params.get("error_description") || undefined,
+      );
+    }
+
+    const code = params.get("code");
+    if (!code) {
+      throw new YotoAuthenticationError(
+        "Authorization callback is missing the code",
+      );
+    }
+
+    const tokens = await this.exchangeCodeForTokens(
+      code,
+      expected.codeVerifier,
+    );
+    if (expected.nonce && tokens.id_token) {
+      let nonce: unknown;
+      try {
+        nonce = decodeJWT(tokens.id_token).nonce;
+      } catch {
+        nonce = undefined;
+      }
+      if (nonce !== expected.nonce) {
+        throw new YotoAuthenticationError(
+          "ID token nonce does not match",
+          "nonce_mismatch",
+        );
+      }
+    }
+    return tokens;
   }
 
   /**
@@ -364,18 +740,21 @@ export class YotoBrowserAuth {
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: "POST",
         headers: {
           "Content-Type": "application/x-www-form-urlencoded",
         },
-        body: new URLSearchParams({
-          grant_type: "authorization_code",
-          client_id: this.clientId,
-          code_verifier: codeVerifier,
-          code: code,
-          redirect_uri: this.redirectUri,
-        }),
+        body: formParams(
+          {
+            grant_type: "authorization_code",
+            client_id: this.clientId,
+            code_verifier: codeVerifier,
+            code: code,
+            redirect_uri: this.redirectUri,
+          },
+          this.tokenParams,
+        ),
         signal: controller.signal,
       });
 
@@ -387,11 +766,13 @@ export class YotoBrowserAuth {
       }
 
       const data = (await response.json()) as Record<string, unknown>;
+      logEvent(this.logger, "info", "code_exchange.complete");
       return {
         access_token: data.access_token as string,
         refresh_token: data.refresh_token as string,
         expires_in: data.expires_in as number,
         token_type: data.token_type as string,
+        id_token: data.id_token as string | undefined,
       };
     } catch (error) {
       clearTimeout(timeoutId);
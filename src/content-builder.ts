@@ -0,0 +1,289 @@
+import type {
+  Chapter,
+  ContentData,
+  ContentMetadata,
+  CreateContentRequest,
+  Track,
+  TranscodedInfo,
+  TranscodeResponse,
+} from "./types";
+
+export interface ChapterOptions {
+  /** Defaults to a two-digit position, e.g. "01" */
+  key?: string;
+  /** Defaults to the chapter number, e.g. "1" */
+  overlayLabel?: string;
+  /** 16x16 icon media URL, e.g. "yoto:#<hash>" */
+  icon?: string | null;
+}
+
+export interface TrackOptions {
+  /** Defaults to the title in the transcode metadata, then "Track <n>" */
+  title?: string;
+  /** Defaults to a two-digit position within the chapter, e.g. "01" */
+  key?: string;
+  /** Defaults to the chapter's overlay label */
+  overlayLabel?: string;
+  /** 16x16 icon media URL, e.g. "yoto:#<hash>" */
+  icon?: string | null;
+  /** Audio format (default: the transcoded format, or "mp3") */
+  format?: string;
+  /** Seconds; overrides the transcoded duration */
+  duration?: number;
+  /** Bytes; overrides the transcoded file size */
+  fileSize?: number;
+  channels?: "stereo" | "mono";
+}
+
+interface ChapterDraft {
+  title?: string;
+  options: ChapterOptions;
+  tracks: TrackDraft[];
+}
+
+type TrackDraft = Pick<
+  Track,
+  "trackUrl" | "type" | "format" | "duration" | "fileSize" | "channels"
+> & { title?: string; options: TrackOptions };
+
+/**
+ * Fluent builder for MYO card content
+ * Fills in keys, overlay labels, display icons and media totals so
+ * chapters and tracks only need what's specific to them
+ */
+export class ContentBuilder {
+  private readonly title: string;
+  private readonly chapters: ChapterDraft[] = [];
+  private playback?: ContentData["playbackType"];
+  private contentConfig?: ContentData["config"];
+  private extraMetadata: Omit<ContentMetadata, "media"> = {};
+
+  constructor(title: string) {
+    this.title = title;
+  }
+
+  /**
+   * Start a new chapter; tracks added afterwards go into it
+   */
+  addChapter(title: string, options: ChapterOptions = {}): this {
+    this.chapters.push({ title, options, tracks: [] });
+    return this;
+  }
+
+  /**
+   * Add a transcoded upload to the current chapter
+   * @param transcode - Result of media.getTranscodeStatus, once transcodedSha256 is set
+   */
+  addAudioTrack(
+    transcode: TranscodeResponse | TranscodeResponse["transcode"],
+    options: TrackOptions = {},
+  ): this {
+    const { transcodedSha256, transcodedInfo } =
+      "transcode" in transcode ? transcode.transcode : transcode;
+    if (!transcodedSha256) {
+      throw new Error(
+        "Transcode has not finished: transcodedSha256 is missing",
+      );
+    }
+    this.currentChapter().tracks.push({
+      title: transcodedInfo?.metadata?.title,
+      trackUrl: `yoto:#${transcodedSha256}`,
+      type: "audio",
+      format: transcodedInfo?.format || "mp3",
+      duration: transcodedInfo?.duration,
+      fileSize: transcodedInfo?.fileSize,
+      channels: toChannels(transcodedInfo?.channels),
+      options,
+    });
+    return this;
+  }
+
+  /**
+   * Add a streamed track to the current chapter
+   * @param url - HTTPS URL of the stream
+   */
+  addStreamTrack(url: string, options: TrackOptions = {}): this {
+    this.currentChapter().tracks.push({
+      trackUrl: url,
+      type: "stream",
+      format: "mp3",
+      duration: 0,
+      fileSize: 0,
+      options,
+    });
+    return this;
+  }
+
+  /**
+   * Add a chapter holding a single transcoded track, named after the track
+   */
+  addAudioChapter(
+    transcode: TranscodeResponse | TranscodeResponse["transcode"],
+    options: TrackOptions & { chapter?: ChapterOptions } = {},
+  ): this {
+    const { chapter, ...trackOptions } = options;
+    this.chapters.push({ options: chapter ?? {}, tracks: [] });
+    return this.addAudioTrack(transcode, trackOptions);
+  }
+
+  /**
+   * Add a chapter holding a single streamed track, named after the track
+   */
+  addStreamChapter(
+    url: string,
+    options: TrackOptions & { chapter?: ChapterOptions } = {},
+  ): this {
+    const { chapter, ...trackOptions } = options;
+    this.chapters.push({ options: chapter ?? {}, tracks: [] });
+    return this.addStreamTrack(url, trackOptions);
+  }
+
+  /**
+   * Play chapters in order or shuffled
+   */
+  playbackType(type: NonNullable<ContentData["playbackType"]>): this {
+    this.playback = type;
+    return this;
+  }
+
+  /**
+   * Set card playback config, e.g. resumeTimeout
+   */
+  config(config: NonNullable<ContentData["config"]>): this {
+    this.contentConfig = { ...this.contentConfig, ...config };
+    return this;
+  }
+
+  /**
+   * Set card metadata such as description, author or cover
+   * Media totals are computed on build
+   */
+  metadata(metadata: Omit<ContentMetadata, "media">): this {
+    this.extraMetadata = { ...this.extraMetadata, ...metadata };
+    return this;
+  }
+
+  /**
+   * Build the content payload
+   */
+  buildContent(): ContentData {
+    const content: ContentData = {
+      chapters: this.chapters.map((chapter, index) =>
+        buildChapter(chapter, index),
+      ),
+    };
+    if (this.playback) {
+      content.playbackType = this.playback;
+    }
+    if (this.contentConfig) {
+      content.config = this.contentConfig;
+    }
+    return content;
+  }
+
+  /**
+   * Build a request for content.create
+   */
+  build(): CreateContentRequest {
+    const content = this.buildContent();
+    const hasStreams = content.chapters.some((chapter) => chapter.hasStreams);
+    return {
+      title: this.title,
+      content,
+      metadata: {
+        ...this.extraMetadata,
+        media: {
+          duration: sum(content.chapters.map((chapter) => chapter.duration)),
+          fileSize: sum(content.chapters.map((chapter) => chapter.fileSize)),
+          ...(hasStreams ? { hasStreams } : {}),
+        },
+      },
+    };
+  }
+
+  private currentChapter(): ChapterDraft {
+    const chapter = this.chapters.at(-1);
+    if (chapter) {
+      return chapter;
+    }
+    const created: ChapterDraft = { options: {}, tracks: [] };
+    this.chapters.push(created);
+    return created;
+  }
+}
+
+function buildChapter(draft: ChapterDraft, index: number): Chapter {
+  const { options } = draft;
+  const overlayLabel = options.overlayLabel ?? String(index + 1);
+  const tracks = draft.tracks.map((track, trackIndex) =>
+    buildTrack(track, trackIndex, overlayLabel),
+  );
+  const hasStreams = tracks.some((track) => track.type === "stream");
+
+  const chapter: Chapter = {
+    key: options.key ?? padKey(index),
+    title: draft.title ?? tracks[0]?.title,
+    overlayLabel,
+    tracks,
+    display: { icon16x16: options.icon ?? null },
+    duration: sum(tracks.map((track) => track.duration)),
+    fileSize: sum(tracks.map((track) => track.fileSize)),
+  };
+  if (hasStreams) {
+    chapter.hasStreams = true;
+  }
+  return chapter;
+}
+
+function buildTrack(
+  draft: TrackDraft,
+  index: number,
+  chapterLabel: string,
+): Track {
+  const { options } = draft;
+  const track: Track = {
+    key: options.key ?? padKey(index),
+    title: options.title ?? draft.title ?? `Track ${index + 1}`,
+    trackUrl: draft.trackUrl,
+    overlayLabel: options.overlayLabel ?? chapterLabel,
+    format: options.format ?? draft.format,
+    type: draft.type,
+    display: { icon16x16: options.icon ?? null },
+  };
+  const duration = options.duration ?? draft.duration;
+  const fileSize = options.fileSize ?? draft.fileSize;
+  const channels = options.channels ?? draft.channels;
+  if (duration !== undefined) {
+    track.duration = duration;
+  }
+  if (fileSize !== undefined) {
+    track.fileSize = fileSize;
+  }
+  if (channels) {
+    track.channels = channels;
+  }
+  return track;
+}
+
+/**
+ * Zero-padded key from a zero-based position, e.g. 0 → "01"
+ */
+function padKey(index: number): string {
+  return String(index + 1).padStart(2, "0");
+}
+
+function sum(values: (number | undefined)[]): number {
+  return values.reduce<number>((total, value) => total + (value ?? 0), 0);
+}
+
+function toChannels(
+  channels: TranscodedInfo["channels"],
+): Track["channels"] | undefined {
+  if (channels === 1) {
+    return "mono";
+  }
+  if (channels === 2) {
+    return "stereo";
+  }
+  return undefined;
+}
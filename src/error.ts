@@ -1,3 +1,5 @@
+import type { RateLimitInfo, ValidationIssue } from "./types/common.ts";
+
 export class YotoError extends Error {
   public readonly statusCode?: number;
   public readonly requestId?: string;
@@ -41,6 +43,22 @@ export class YotoAuthenticationError extends YotoError {
   }
 }
 
+/**
+ * OAuth error returned on an authorization redirect, e.g. access_denied
+ */
+export class YotoOAuthError extends YotoAuthenticationError {
+  public readonly error: string;
+  public readonly errorDescription?: string;
+
+  constructor(error: string, errorDescription?: string) {
+    super(`Authorization failed: ${errorDescription || error}`, error);
+    this.name = "YotoOAuthError";
+    this.error = error;
+    this.errorDescription = errorDescription;
+    Object.setPrototypeOf(this, YotoOAuthError.prototype);
+  }
+}
+
 export class YotoAPIError extends YotoError {
   constructor(
     message: string,
@@ -75,6 +93,7 @@ export class YotoConnectionError extends YotoError {
 
 export class YotoRateLimitError extends YotoError {
   public readonly retryAfter?: number;
+  public readonly rateLimit?: RateLimitInfo;
 
   constructor(
     message: string,
@@ -83,10 +102,47 @@ export class YotoRateLimitError extends YotoError {
     requestId?: string,
     url?: string,
     method?: string,
+    rateLimit?: RateLimitInfo,
   ) {
     super(message, 429, "rate_limit_error", code, requestId, url, method);
     this.name = "YotoRateLimitError";
     this.retryAfter = retryAfter;
+    this.rateLimit = rateLimit;
     Object.setPrototypeOf(this, YotoRateLimitError.prototype);
   }
 }
+
+/**
+ * Thrown before a request is sent when local validation finds problems
+ */
+export class YotoValidationError extends YotoError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message, undefined, "validation_error", issues[0]?.code);
+    this.name = "YotoValidationError";
+    this.issues = issues;
+    Object.setPrototypeOf(this, YotoValidationError.prototype);
+  }
+}
+
+/**
+ * Thrown by media.waitForTranscode when the transcode doesn't finish in time
+ */
+export class YotoTranscodeTimeoutError extends YotoError {
+  public readonly uploadId: string;
+  public readonly timeout: number;
+
+  constructor(uploadId: string, timeout: number) {
+    super(
+      `Timed out after ${timeout}ms waiting for upload ${uploadId} to transcode`,
+      undefined,
+      "timeout_error",
+      "transcode_timeout",
+    );
+    this.name = "YotoTranscodeTimeoutError";
+    this.uploadId = uploadId;
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, YotoTranscodeTimeoutError.prototype);
+  }
+}
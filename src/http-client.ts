@@ -3,14 +3,48 @@ import {
   YotoAPIError,
   YotoAuthenticationError,
   YotoConnectionError,
+  YotoError,
   YotoRateLimitError,
 } from "./error.ts";
-import type { RequestOptions, YotoConfig, YotoErrorResponse } from "./types";
+import { logEvent } from "./logger.ts";
+import { parseRateLimitHeaders, parseRetryAfter } from "./rate-limit.ts";
+import { RequestLimiter } from "./request-limiter.ts";
+import {
+  calculateRetryDelay,
+  isRetryable,
+  type ResolvedRetryPolicy,
+  resolveRetryPolicy,
+} from "./retry.ts";
+import { sleep } from "./sleep.ts";
+import {
+  endRequestSpan,
+  injectTraceContext,
+  startRequestSpan,
+} from "./tracing.ts";
+import type {
+  FetchLike,
+  HttpMethod,
+  Logger,
+  Middleware,
+  MiddlewareRequest,
+  RateLimitInfo,
+  RateLimitThrottleOptions,
+  RequestOptions,
+  RequestQueueStats,
+  ResponseType,
+  Span,
+  TracingOptions,
+  YotoConfig,
+  YotoErrorResponse,
+  YotoResponse,
+} from "./types";
 import { VERSION } from "./version.ts";
 
 const DEFAULT_BASE_URL = "https://api.yotoplay.com";
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_THROTTLE_MIN_REMAINING = 0;
+const DEFAULT_THROTTLE_MAX_WAIT = 60000;
 
 export class HttpClient {
   private readonly authProvider: AuthProvider;
@@ -18,43 +52,187 @@ export class HttpClient {
   private readonly timeout: number;
   private readonly maxRetries: number;
   private readonly headers: Record<string, string>;
+  private readonly middleware: Middleware[];
+  private readonly fetch: FetchLike;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly rateLimitThrottle?: Required<RateLimitThrottleOptions>;
+  private readonly limiter?: RequestLimiter;
+  private readonly logger?: Logger;
+  private readonly tracing?: TracingOptions;
+  private lastRateLimit?: RateLimitInfo;
+  private latestResponse?: YotoResponse<unknown>;
 
   constructor(authProvider: AuthProvider, config: YotoConfig) {
     this.authProvider = authProvider;
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
     this.timeout = config.timeout || DEFAULT_TIMEOUT;
-    this.maxRetries = config.maxRetries || DEFAULT_MAX_RETRIES;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
     this.headers = {
       "Content-Type": "application/json",
       "User-Agent": `yoto-js/${VERSION}`,
       ...config.headers,
     };
+    this.middleware = config.middleware || [];
+    this.fetch = config.fetch || ((input, init) => fetch(input, init));
+    this.retryPolicy = resolveRetryPolicy(config.retryPolicy);
+    this.logger = config.logger;
+    this.tracing = config.tracing;
+
+    if (config.rateLimitThrottle) {
+      const throttle =
+        config.rateLimitThrottle === true ? {} : config.rateLimitThrottle;
+      this.rateLimitThrottle = {
+        minRemaining: throttle.minRemaining ?? DEFAULT_THROTTLE_MIN_REMAINING,
+        maxWait: throttle.maxWait ?? DEFAULT_THROTTLE_MAX_WAIT,
+      };
+    }
+
+    if (config.limiter) {
+      this.limiter = new RequestLimiter(config.limiter);
+    }
+  }
+
+  /**
+   * Requests waiting for or holding a client-side limiter slot
+   * A slot is released once the response is parsed, before a streamed body is read
+   */
+  get queueStats(): RequestQueueStats {
+    return this.limiter?.stats ?? { queued: 0, inFlight: 0 };
+  }
+
+  /**
+   * Rate limit state from the most recent response that reported one
+   */
+  get rateLimit(): RateLimitInfo | undefined {
+    return this.lastRateLimit;
+  }
+
+  /**
+   * Details of the most recent successful request
+   * With concurrent calls prefer the per-call onResponse option
+   */
+  get lastResponse(): YotoResponse<unknown> | undefined {
+    return this.latestResponse;
   }
 
   async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const { data } = await this.requestWithResponse<T>(path, options);
+    return data;
+  }
+
+  async requestWithResponse<T>(
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<YotoResponse<T>> {
     const url = this.buildUrl(path, options.query);
     const method = options.method || "GET";
 
+    const result = this.tracing
+      ? await this.executeTraced<T>(this.tracing, path, url, method, options)
+      : await this.execute<T>(url, method, options);
+    // Called once the result is final, so a throwing callback is never retried
+    options.onResponse?.(result);
+    return result;
+  }
+
+  /**
+   * Send a request inside a client span
+   */
+  private async executeTraced<T>(
+    tracing: TracingOptions,
+    path: string,
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+  ): Promise<YotoResponse<T>> {
+    // Unauthenticated requests go to other hosts, e.g. presigned URLs, so
+    // only their host is recorded
+    const external = options.authenticate === false;
+    const span = startRequestSpan(tracing, {
+      operation: options.operation,
+      route: external ? undefined : options.route,
+      path: external ? undefined : path,
+      method,
+      url,
+    });
+    try {
+      const result = await this.execute<T>(url, method, options, span);
+      endRequestSpan(span, {
+        status: result.response.status,
+        requestId: result.requestId,
+      });
+      return result;
+    } catch (error) {
+      endRequestSpan(span, { error: error as Error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request, retrying failed attempts according to the retry policy
+   */
+  private async execute<T>(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions,
+    span?: Span,
+  ): Promise<YotoResponse<T>> {
+    const startedAt = Date.now();
+
+    const timeout = options.timeout ?? this.timeout;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const signal = options.signal;
+
     let lastError: Error | undefined;
+    let replayedAfterUnauthorized = false;
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      await this.throttle(signal);
+      const release = await this.limiter?.acquire(signal);
+
+      // Abort on either the per-attempt timeout or the caller's signal
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const abortFromCaller = () => controller.abort(signal?.reason);
+      signal?.addEventListener("abort", abortFromCaller, { once: true });
+
+      let retryDelay: number;
+      let rejectedToken: string | undefined;
+      let streaming = false;
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        signal?.throwIfAborted();
 
-        const accessToken = await this.authProvider.getAccessToken();
+        // Unauthenticated requests go to other hosts, e.g. presigned upload URLs
+        const external = options.authenticate === false;
+        const accessToken = external
+          ? undefined
+          : await this.authProvider.getAccessToken();
 
-        // Determine if body is binary (Buffer or Blob) or JSON
+        // Determine if body is binary (Buffer, Blob or stream) or JSON
         const isBinary =
-          options.body instanceof Buffer || options.body instanceof Blob;
+          options.body instanceof Buffer ||
+          options.body instanceof Blob ||
+          options.body instanceof ReadableStream;
 
         // Build headers: start with defaults, add auth, then options
-        const requestHeaders: Record<string, string> = {
-          Authorization: `Bearer ${accessToken}`,
-        };
+        const requestHeaders: Record<string, string> = {};
+        if (accessToken) {
+          requestHeaders.Authorization = `Bearer ${accessToken}`;
+        }
 
-        // For binary uploads, only add Content-Type if explicitly provided in options
-        if (isBinary) {
+        if (external) {
+          // Client and per-call headers are meant for the Yoto API, so other
+          // hosts only get the User-Agent and an explicit Content-Type
+          const userAgent = this.headers["User-Agent"];
+          const contentType = options.headers?.["Content-Type"];
+          if (userAgent) {
+            requestHeaders["User-Agent"] = userAgent;
+          }
+          if (contentType) {
+            requestHeaders["Content-Type"] = contentType;
+          }
+        } else if (isBinary) {
+          // For binary uploads, only add Content-Type if explicitly provided in options
           if (options.headers?.["Content-Type"]) {
             requestHeaders["Content-Type"] = options.headers["Content-Type"];
           }
@@ -78,57 +256,198 @@ export class HttpClient {
         }
 
         // Prepare body based on type
-        let requestBody: Buffer | Blob | string | undefined;
+        let requestBody: MiddlewareRequest["body"];
         if (isBinary) {
-          requestBody = options.body as Buffer | Blob;
+          requestBody = options.body as MiddlewareRequest["body"];
         } else if (options.body) {
           requestBody = JSON.stringify(options.body);
         }
 
-        const response = await fetch(url, {
+        if (span && this.tracing) {
+          span.setAttribute("http.request.resend_count", attempt);
+          if (!external) {
+            injectTraceContext(this.tracing, span, requestHeaders);
+          }
+        }
+
+        logEvent(this.logger, "debug", "request.start", {
           method,
+          url,
+          attempt,
           headers: requestHeaders,
-          body: requestBody,
-          signal: controller.signal,
+        });
+        const attemptStartedAt = Date.now();
+
+        const response = await this.dispatch(
+          {
+            url,
+            method,
+            headers: requestHeaders,
+            body: requestBody,
+            signal: controller.signal,
+            attempt,
+          },
+          external,
+        );
+
+        logEvent(this.logger, response.ok ? "debug" : "warn", "response", {
+          method,
+          url,
+          attempt,
+          status: response.status,
+          requestId: response.headers.get("X-Request-Id") || undefined,
+          durationMs: Date.now() - attemptStartedAt,
         });
 
-        clearTimeout(timeoutId);
+        const rateLimit = parseRateLimitHeaders(response.headers);
+        if (rateLimit) {
+          this.lastRateLimit = rateLimit;
+        }
 
         if (!response.ok) {
-          await this.handleErrorResponse(response, url, method);
+          if (response.status === 401 && accessToken) {
+            rejectedToken = accessToken;
+          }
+          await this.handleErrorResponse(response, url, method, rateLimit);
         }
 
-        const data = await response.json();
-        return data as T;
+        let data = await this.parseResponse(
+          response,
+          url,
+          method,
+          options.responseType,
+        );
+
+        // A streamed body is read after this returns, so keep the caller's
+        // signal linked to the fetch until the stream ends or is cancelled
+        if (signal && data instanceof ReadableStream) {
+          streaming = true;
+          data = releaseWhenDone(data, () =>
+            signal.removeEventListener("abort", abortFromCaller),
+          );
+        }
+
+        const result: YotoResponse<T> = {
+          data: data as T,
+          response,
+          requestId: response.headers.get("X-Request-Id") || undefined,
+          attempts: attempt + 1,
+          durationMs: Date.now() - startedAt,
+          rateLimit,
+        };
+        this.latestResponse = result;
+        return result;
       } catch (error) {
         lastError = error as Error;
 
+        // Both the timeout and the caller's signal abort the attempt; once no
+        // retry is left, report a timeout as such instead of a bare AbortError
+        const failure =
+          controller.signal.aborted && !signal?.aborted
+            ? new YotoConnectionError(`Request timed out after ${timeout}ms`)
+            : lastError;
+
+        if (error instanceof YotoRateLimitError) {
+          logEvent(this.logger, "warn", "rate_limit.hit", {
+            method,
+            url,
+            retryAfter: error.retryAfter,
+            rateLimit: error.rateLimit,
+          });
+        }
+
+        // Give the auth provider one chance to refresh a token the API rejected
+        // The replay does not count against maxRetries
         if (
-          error instanceof YotoAuthenticationError ||
-          error instanceof YotoConnectionError
+          rejectedToken &&
+          this.authProvider.invalidate &&
+          !replayedAfterUnauthorized &&
+          !signal?.aborted
         ) {
-          throw error;
+          replayedAfterUnauthorized = true;
+          logEvent(this.logger, "info", "request.replay_unauthorized", {
+            method,
+            url,
+            attempt,
+          });
+          await this.authProvider.invalidate(rejectedToken);
+          attempt--;
+          continue;
         }
 
-        if (attempt < this.maxRetries) {
-          if (error instanceof YotoRateLimitError) {
-            const delay = this.calculateRetryDelay(attempt, error.retryAfter);
-            await this.sleep(delay);
-            continue;
-          }
+        if (signal?.aborted || attempt >= maxRetries) {
+          throw failure;
+        }
 
-          const delay = this.calculateRetryDelay(attempt);
-          await this.sleep(delay);
-          continue;
+        const retryable = isRetryable(
+          this.retryPolicy,
+          lastError,
+          {
+            attempt,
+            method,
+            url,
+            statusCode:
+              error instanceof YotoError ? error.statusCode : undefined,
+          },
+          options.idempotent,
+        );
+        if (!retryable) {
+          throw failure;
         }
 
-        throw error;
+        retryDelay = calculateRetryDelay(
+          this.retryPolicy,
+          attempt,
+          error instanceof YotoRateLimitError ? error.retryAfter : undefined,
+        );
+        logEvent(this.logger, "warn", "request.retry", {
+          method,
+          url,
+          attempt,
+          delayMs: retryDelay,
+          error: lastError,
+        });
+      } finally {
+        release?.();
+        clearTimeout(timeoutId);
+        if (!streaming) {
+          signal?.removeEventListener("abort", abortFromCaller);
+        }
       }
+
+      // Back off outside the attempt so no limiter slot is held while waiting
+      await sleep(retryDelay, signal);
     }
 
     throw lastError || new YotoConnectionError("Request failed after retries");
   }
 
+  /**
+   * Run a request through the middleware chain, ending in fetch
+   * Requests to other hosts skip middleware, which may add Yoto API headers
+   */
+  private dispatch(
+    request: MiddlewareRequest,
+    skipMiddleware = false,
+  ): Promise<Response> {
+    const run = (index: number, req: MiddlewareRequest): Promise<Response> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return this.fetch(req.url, {
+          method: req.method,
+          headers: req.headers,
+          body: req.body,
+          signal: req.signal,
+          // Required by Node.js to send a streamed request body
+          ...(req.body instanceof ReadableStream ? { duplex: "half" } : {}),
+        });
+      }
+      return middleware(req, (next) => run(index + 1, next));
+    };
+
+    return run(skipMiddleware ? this.middleware.length : 0, request);
+  }
+
   private buildUrl(
     path: string,
     query?: Record<string, string | number | boolean | undefined>,
@@ -146,10 +465,69 @@ export class HttpClient {
     return url.toString();
   }
 
+  /**
+   * Read a successful response body according to the requested type
+   */
+  private async parseResponse(
+    response: Response,
+    url: string,
+    method: string,
+    responseType?: ResponseType,
+  ): Promise<unknown> {
+    switch (responseType) {
+      case "stream":
+        return response.body;
+      case "arrayBuffer":
+        return response.arrayBuffer();
+      case "text":
+        return response.text();
+    }
+
+    if (response.status === 204 || response.status === 205) {
+      return undefined;
+    }
+
+    const contentType = response.headers.get("Content-Type")?.toLowerCase();
+    const isJson = contentType?.includes("json") ?? false;
+
+    // Binary content is only decoded as JSON when explicitly requested
+    if (!responseType && contentType && !isJson) {
+      if (contentType.startsWith("text/")) {
+        return response.text();
+      }
+      const buffer = await response.arrayBuffer();
+      return buffer.byteLength > 0 ? buffer : undefined;
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Without a Content-Type, fall back to the raw text
+      if (!responseType && !contentType) {
+        return text;
+      }
+      throw new YotoAPIError(
+        "Failed to parse JSON response",
+        response.status,
+        "invalid_response",
+        undefined,
+        response.headers.get("X-Request-Id") || undefined,
+        url,
+        method,
+      );
+    }
+  }
+
   private async handleErrorResponse(
     response: Response,
     url: string,
     method: string,
+    rateLimit?: RateLimitInfo,
   ): Promise<never> {
     const requestId = response.headers.get("X-Request-Id") || undefined;
 
@@ -169,17 +547,14 @@ export class HttpClient {
     }
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get("Retry-After");
-      const retryAfterSeconds = retryAfter
-        ? Number.parseInt(retryAfter, 10)
-        : undefined;
       throw new YotoRateLimitError(
         message,
-        retryAfterSeconds,
+        parseRetryAfter(response.headers.get("Retry-After")),
         code,
         requestId,
         url,
         method,
+        rateLimit,
       );
     }
 
@@ -194,19 +569,58 @@ export class HttpClient {
     );
   }
 
-  private calculateRetryDelay(attempt: number, retryAfter?: number): number {
-    if (retryAfter) {
-      return retryAfter * 1000;
+  /**
+   * Wait for the rate limit window to reset when the remaining quota is low
+   */
+  private async throttle(signal?: AbortSignal): Promise<void> {
+    const rateLimit = this.lastRateLimit;
+    if (
+      !this.rateLimitThrottle ||
+      rateLimit?.remaining === undefined ||
+      !rateLimit.resetAt ||
+      rateLimit.remaining > this.rateLimitThrottle.minRemaining
+    ) {
+      return;
     }
 
-    const baseDelay = 1000;
-    const exponentialDelay = baseDelay * 2 ** attempt;
-    const jitter = Math.random() * 1000;
-
-    return Math.min(exponentialDelay + jitter, 10000);
+    const wait = rateLimit.resetAt.getTime() - Date.now();
+    if (wait > 0) {
+      logEvent(this.logger, "info", "rate_limit.throttle", {
+        remaining: rateLimit.remaining,
+        resetAt: rateLimit.resetAt,
+        waitMs: Math.min(wait, this.rateLimitThrottle.maxWait),
+      });
+      await sleep(Math.min(wait, this.rateLimitThrottle.maxWait), signal);
+    }
   }
+}
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
+/**
+ * Pass a stream through, calling release once it ends, fails or is cancelled
+ */
+function releaseWhenDone(
+  body: ReadableStream<Uint8Array>,
+  release: () => void,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
 }
@@ -1,9 +1,33 @@
-export { YotoBrowserAuth, YotoDeviceAuth } from "./auth.ts";
+export {
+  type DeviceLoginOptions,
+  type InitiateDeviceLoginOptions,
+  YotoBrowserAuth,
+  YotoDeviceAuth,
+} from "./auth.ts";
 export {
   type AuthProvider,
+  type CreateProviderOptions,
   RefreshableAuthProvider,
+  type RefreshableAuthProviderOptions,
   StaticTokenProvider,
+  type TokenInvalidReason,
 } from "./auth-provider.ts";
+export {
+  type ChapterOptions,
+  ContentBuilder,
+  type TrackOptions,
+} from "./content-builder.ts";
 export * from "./error.ts";
+export {
+  type LoopbackLoginOptions,
+  YotoLoopbackAuth,
+} from "./loopback-auth.ts";
+export {
+  EncryptedFileTokenStore,
+  FileTokenStore,
+  MemoryTokenStore,
+  type TokenStore,
+} from "./token-store.ts";
 export * from "./types/index.ts";
+export { validateContent } from "./validation.ts";
 export { Yoto } from "./yoto.ts";
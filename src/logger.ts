@@ -0,0 +1,83 @@
+import type { Logger } from "./types";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const REDACTED = "[REDACTED]";
+
+// Field and query parameter names that carry credentials, including presigned URL signatures
+const SENSITIVE_KEY =
+  /^(authorization|access_token|accessToken|refresh_token|refreshToken|id_token|idToken|device_code|deviceCode|code|code_verifier|codeVerifier|client_secret|clientSecret|password|token|signature|x-amz-signature|x-amz-credential|x-amz-security-token)$/i;
+
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    let changed = false;
+    for (const key of url.searchParams.keys()) {
+      if (SENSITIVE_KEY.test(key)) {
+        url.searchParams.set(key, REDACTED);
+        changed = true;
+      }
+    }
+    return changed ? url.toString() : value;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Deep copy of a value with credentials masked
+ * Masks sensitive keys, bearer tokens and sensitive URL query parameters
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === "string") {
+    if (/^bearer\s/i.test(value)) {
+      return `Bearer ${REDACTED}`;
+    }
+    return /^https?:\/\//i.test(value) ? redactUrl(value) : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] =
+        SENSITIVE_KEY.test(key) && entry !== undefined
+          ? REDACTED
+          : redact(entry);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Emit a structured, redacted event to an optional logger
+ * Logger failures are swallowed so they can never break a request
+ */
+export function logEvent(
+  logger: Logger | undefined,
+  level: LogLevel,
+  event: string,
+  fields: Record<string, unknown> = {},
+): void {
+  if (!logger) {
+    return;
+  }
+
+  try {
+    logger[level](
+      { event, ...(redact(fields) as Record<string, unknown>) },
+      `yoto-js: ${event}`,
+    );
+  } catch {
+    // Ignore logger errors
+  }
+}
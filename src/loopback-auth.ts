@@ -0,0 +1,221 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { YotoBrowserAuth } from "./auth.ts";
+import type {
+  CreateProviderOptions,
+  RefreshableAuthProvider,
+} from "./auth-provider.ts";
+import { YotoAuthenticationError } from "./error.ts";
+import { logEvent } from "./logger.ts";
+import type { TokenStore } from "./token-store.ts";
+import type { AuthConfig, TokenResponse } from "./types/common.ts";
+
+const LOOPBACK_HOST = "127.0.0.1";
+const DEFAULT_CALLBACK_PATH = "/callback";
+const DEFAULT_LOGIN_TIMEOUT = 300000;
+
+const SUCCESS_PAGE =
+  "<!doctype html><title>Yoto login</title><p>Login complete. You can close this window.</p>";
+const FAILURE_PAGE =
+  "<!doctype html><title>Yoto login</title><p>Login failed. Return to the application for details.</p>";
+
+export interface LoopbackLoginOptions {
+  /** Open the authorization URL, e.g. in the system browser */
+  openUrl: (url: string) => void | Promise<void>;
+  /** Local port to listen on (default: a random free port) */
+  port?: number;
+  /** Path the browser is redirected to (default: "/callback") */
+  callbackPath?: string;
+  /** Give up if the callback hasn't arrived within this many milliseconds (default: 300000) */
+  timeout?: number;
+  /** Cancel the login and shut the server down */
+  signal?: AbortSignal;
+}
+
+/**
+ * Authentication client for PKCE login from desktop and CLI apps
+ * Catches the redirect on a temporary HTTP server bound to 127.0.0.1 (Node.js only)
+ */
+export class YotoLoopbackAuth {
+  private readonly clientId: string;
+  private readonly config?: AuthConfig;
+
+  constructor(clientId: string, config?: AuthConfig) {
+    this.clientId = clientId;
+    this.config = config;
+  }
+
+  /**
+   * Create an auth provider with automatic token refresh
+   */
+  createProvider(
+    tokens: TokenResponse,
+    options: CreateProviderOptions = {},
+  ): RefreshableAuthProvider {
+    return this.browserAuth("").createProvider(tokens, options);
+  }
+
+  /**
+   * Create an auth provider from tokens saved in a token store
+   * @returns The provider, or undefined if the store holds no tokens
+   */
+  restoreProvider(
+    tokenStore: TokenStore,
+    options: Omit<CreateProviderOptions, "tokenStore"> = {},
+  ): Promise<RefreshableAuthProvider | undefined> {
+    return this.browserAuth("").restoreProvider(tokenStore, options);
+  }
+
+  /**
+   * Revoke a refresh token on the auth server
+   */
+  revoke(refreshToken: string): Promise<void> {
+    return this.browserAuth("").revoke(refreshToken);
+  }
+
+  /**
+   * Sign out using tokens saved in a token store: revoke them and clear the store
+   */
+  logout(tokenStore: TokenStore): Promise<void> {
+    return this.browserAuth("").logout(tokenStore);
+  }
+
+  /**
+   * Run the full login: start the local server, open the authorization URL,
+   * then hand the redirect to YotoBrowserAuth.handleCallback
+   * The server is always shut down before this returns
+   */
+  async login(options: LoopbackLoginOptions): Promise<TokenResponse> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    const callbackPath = options.callbackPath || DEFAULT_CALLBACK_PATH;
+    const http = await import("node:http");
+    const server = http.createServer();
+    let callback: PendingCallback | undefined;
+    try {
+      const port = await listen(server, options.port ?? 0);
+      const redirectUri = `http://${LOOPBACK_HOST}:${port}${callbackPath}`;
+      const auth = this.browserAuth(redirectUri);
+
+      const { url, ...expected } = await auth.generateAuthUrl();
+      callback = waitForCallback(server, {
+        callbackPath,
+        state: expected.state,
+        timeout: options.timeout ?? DEFAULT_LOGIN_TIMEOUT,
+        signal,
+        handle: (callbackUrl) => auth.handleCallback(callbackUrl, expected),
+      });
+      logEvent(this.config?.logger, "info", "loopback_login.listening", {
+        redirectUri,
+      });
+      await options.openUrl(url);
+
+      return await callback.tokens;
+    } finally {
+      callback?.cancel();
+      server.closeAllConnections?.();
+      server.close();
+    }
+  }
+
+  private browserAuth(redirectUri: string): YotoBrowserAuth {
+    return new YotoBrowserAuth(this.clientId, redirectUri, this.config);
+  }
+}
+
+/**
+ * Start listening on the loopback interface and resolve with the bound port
+ */
+function listen(server: Server, port: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, LOOPBACK_HOST, () => {
+      server.off("error", reject);
+      const address = server.address();
+      resolve(typeof address === "object" && address ? address.port : port);
+    });
+  });
+}
+
+interface PendingCallback {
+  tokens: Promise<TokenResponse>;
+  /** Stop waiting without settling the promise */
+  cancel: () => void;
+}
+
+/**
+ * Wait for a request to the callback path carrying the expected state and handle it
+ * The browser is shown whether handling succeeded once it settles
+ */
+function waitForCallback(
+  server: Server,
+  options: {
+    callbackPath: string;
+    state: string;
+    timeout: number;
+    signal?: AbortSignal;
+    handle: (callbackUrl: URL) => Promise<TokenResponse>;
+  },
+): PendingCallback {
+  const { callbackPath, state, timeout, signal, handle } = options;
+  let cleanup = () => {};
+
+  const tokens = new Promise<TokenResponse>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      reject(
+        new YotoAuthenticationError("Timed out waiting for the login callback"),
+      );
+    }, timeout);
+    const onAbort = () => reject(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    cleanup = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+      server.off("request", onRequest);
+    };
+
+    function respond(res: ServerResponse, status: number, page: string) {
+      res.writeHead(status, {
+        "Content-Type": "text/html; charset=utf-8",
+        Connection: "close",
+      });
+      res.end(page);
+    }
+
+    function onRequest(req: IncomingMessage, res: ServerResponse) {
+      const url = new URL(req.url || "/", `http://${LOOPBACK_HOST}`);
+      if (url.pathname !== callbackPath) {
+        respond(res, 404, FAILURE_PAGE);
+        return;
+      }
+
+      // A stray or forged request mustn't end the login; keep waiting for ours,
+      // whether it carries a code or an OAuth error
+      if (url.searchParams.get("state") !== state) {
+        respond(res, 400, FAILURE_PAGE);
+        return;
+      }
+
+      // Only the first matching callback counts
+      server.off("request", onRequest);
+      handle(url).then(
+        (result) => {
+          respond(res, 200, SUCCESS_PAGE);
+          resolve(result);
+        },
+        (error) => {
+          respond(res, 400, FAILURE_PAGE);
+          reject(error);
+        },
+      );
+    }
+
+    server.on("request", onRequest);
+  });
+
+  // Settled before login awaits it if the abort fires while the URL is opening
+  tokens.catch(() => {});
+
+  return { tokens, cancel: () => cleanup() };
+}
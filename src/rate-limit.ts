@@ -0,0 +1,66 @@
+import type { RateLimitInfo } from "./types";
+
+// Reset values above this are Unix timestamps rather than delta seconds
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parse a Retry-After header given as delta seconds or an HTTP-date
+ * @returns Seconds to wait, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Read X-RateLimit-* (or draft RateLimit-*) headers from a response
+ * @returns Rate limit state, or undefined if the response has none
+ */
+export function parseRateLimitHeaders(
+  headers: Headers,
+  now = Date.now(),
+): RateLimitInfo | undefined {
+  const read = (name: string): number | undefined => {
+    const value =
+      headers.get(`X-RateLimit-${name}`) ?? headers.get(`RateLimit-${name}`);
+    if (value === null) {
+      return undefined;
+    }
+    const parsed = Number.parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+
+  const limit = read("Limit");
+  const remaining = read("Remaining");
+  const reset = read("Reset");
+
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return undefined;
+  }
+
+  let resetAt: Date | undefined;
+  if (reset !== undefined) {
+    resetAt =
+      reset > EPOCH_SECONDS_THRESHOLD
+        ? new Date(reset * 1000)
+        : new Date(now + reset * 1000);
+  }
+
+  return { limit, remaining, resetAt };
+}
@@ -0,0 +1,141 @@
+import type { RequestLimiterOptions, RequestQueueStats } from "./types";
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket rate limiter with a cap on requests in flight
+ * Waiters are served strictly in arrival order, so no caller can starve another
+ */
+export class RequestLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly queue: Waiter[] = [];
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RequestLimiterOptions) {
+    assertPositive("requestsPerSecond", options.requestsPerSecond);
+    assertPositive("burst", options.burst);
+    assertPositive("maxConcurrent", options.maxConcurrent);
+
+    this.requestsPerSecond =
+      options.requestsPerSecond ?? Number.POSITIVE_INFINITY;
+    this.burst = Math.max(
+      1,
+      options.burst ?? Math.ceil(this.requestsPerSecond),
+    );
+    this.maxConcurrent = options.maxConcurrent ?? Number.POSITIVE_INFINITY;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  get stats(): RequestQueueStats {
+    return { queued: this.queue.length, inFlight: this.inFlight };
+  }
+
+  /**
+   * Wait for a free slot
+   * @returns A function that must be called once the request has finished
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(signal.reason);
+            this.pump();
+          }
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.inFlight < this.maxConcurrent) {
+      this.refill();
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+
+      const waiter = this.queue.shift() as Waiter;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+
+      this.tokens -= 1;
+      this.inFlight += 1;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.inFlight -= 1;
+        this.pump();
+      });
+    }
+  }
+
+  private refill(): void {
+    if (!Number.isFinite(this.requestsPerSecond)) {
+      this.tokens = this.burst;
+      return;
+    }
+
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + elapsed * this.requestsPerSecond,
+    );
+    this.lastRefill = now;
+  }
+
+  private scheduleRefill(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const wait = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, wait);
+  }
+}
+
+/**
+ * Reject limits that would stall every request, e.g. a rate of 0
+ */
+function assertPositive(
+  name: keyof RequestLimiterOptions,
+  value?: number,
+): void {
+  if (value !== undefined && !(value > 0)) {
+    throw new RangeError(
+      `limiter.${name} must be greater than 0, got ${value}`,
+    );
+  }
+}
@@ -1,59 +1,238 @@
+import { mapWithConcurrency, resolveAudioFile } from "../audio-upload.ts";
+import { ContentBuilder } from "../content-builder.ts";
+import { YotoValidationError } from "../error.ts";
+import type { HttpClient } from "../http-client.ts";
 import type {
+  AudioFileInput,
+  CallOptions,
+  CompletedTranscode,
   Content,
+  ContentData,
   CreateContentRequest,
+  CreateFromAudioOptions,
   UpdateContentRequest,
 } from "../types";
+import { validateContent } from "../validation.ts";
 import { YotoResource } from "../yoto-resource.ts";
+import { MediaResource } from "./media.ts";
+
+export interface ContentResourceOptions {
+  /** Validate content locally before create and update */
+  validate?: boolean;
+  /** Media resource used by createFromAudio */
+  media?: MediaResource;
+}
 
 export class ContentResource extends YotoResource {
+  private readonly validate: boolean;
+  private readonly media: MediaResource;
+
+  constructor(client: HttpClient, options: ContentResourceOptions = {}) {
+    super(client);
+    this.validate = options.validate ?? false;
+    this.media = options.media ?? new MediaResource(client);
+  }
+
   /**
    * Get content by ID
    * @param cardId - The card ID
+   * @param options - Per-request options
    * @returns The content object
    */
-  async retrieve(cardId: string): Promise<Content> {
-    const response = await this.get<{ card: Content }>(`/content/${cardId}`);
+  async retrieve(cardId: string, options?: CallOptions): Promise<Content> {
+    const response = await this.get<{ card: Content }>(
+      `/content/${cardId}`,
+      undefined,
+      { ...options, operation: "content.retrieve", route: "/content/{cardId}" },
+    );
     return response.card;
   }
 
   /**
    * Create new content
    * @param data - Content creation data
+   * @param options - Per-request options
    * @returns The created content
    */
-  async create(data: CreateContentRequest): Promise<Content> {
-    const response = await this.post<{ card: Content }>("/content", data);
+  async create(
+    data: CreateContentRequest,
+    options?: CallOptions,
+  ): Promise<Content> {
+    this.assertValid(data.content);
+    const response = await this.post<{ card: Content }>("/content", data, {
+      ...options,
+      operation: "content.create",
+      route: "/content",
+    });
     return response.card;
   }
 
+  /**
+   * Upload audio files and create a card with one chapter per file
+   * Files are uploaded and transcoded concurrently; chapter titles and
+   * durations come from the transcoded audio
+   * @param files - File paths, buffers or blobs, optionally with titles
+   * @param options - Card title, upload settings and per-request options
+   * @returns The created content
+   * @throws YotoValidationError if files is empty
+   */
+  async createFromAudio(
+    files: AudioFileInput[],
+    options: CreateFromAudioOptions,
+  ): Promise<Content> {
+    if (files.length === 0) {
+      throw new YotoValidationError(
+        "Invalid audio: at least one file is required",
+        [
+          {
+            path: "$.files",
+            code: "required",
+            message: "at least one file is required",
+          },
+        ],
+      );
+    }
+
+    const {
+      title,
+      concurrency = 3,
+      loudnorm = false,
+      transcodeTimeout = 300000,
+      onProgress,
+      metadata,
+      ...requestOptions
+    } = options;
+
+    // Cancel in-flight uploads once any file fails
+    const controller = new AbortController();
+    const { signal: callerSignal } = requestOptions;
+    const abortFromCaller = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener("abort", abortFromCaller, { once: true });
+    const callOptions = { ...requestOptions, signal: controller.signal };
+
+    let completed = 0;
+    const report = (
+      index: number,
+      stage: "uploading" | "transcoding" | "transcoded",
+    ) => onProgress?.({ index, stage, completed, total: files.length });
+
+    let chapters: { transcode: CompletedTranscode; title?: string }[];
+    try {
+      callerSignal?.throwIfAborted();
+      chapters = await mapWithConcurrency(
+        files,
+        concurrency,
+        async (input, index) => {
+          const file = await resolveAudioFile(input);
+          report(index, "uploading");
+          const uploadId = await this.media.uploadAudio(file.data, {
+            ...callOptions,
+            contentType: file.contentType,
+          });
+
+          report(index, "transcoding");
+          const transcode = await this.media.waitForTranscode(uploadId, {
+            ...callOptions,
+            loudnorm,
+            transcodeTimeout,
+          });
+          completed++;
+          report(index, "transcoded");
+
+          return {
+            transcode,
+            title:
+              file.title ??
+              transcode.transcodedInfo?.metadata?.title ??
+              file.name,
+          };
+        },
+      );
+    } catch (error) {
+      controller.abort(error);
+      throw error;
+    } finally {
+      callerSignal?.removeEventListener("abort", abortFromCaller);
+    }
+
+    const builder = new ContentBuilder(title);
+    if (metadata) {
+      builder.metadata(metadata);
+    }
+    for (const chapter of chapters) {
+      builder.addAudioChapter(chapter.transcode, { title: chapter.title });
+    }
+    return this.create(builder.build(), requestOptions);
+  }
+
   /**
    * Update existing content
    * @param cardId - The card ID
    * @param data - Content update data
+   * @param options - Per-request options
    * @returns The updated content
    */
-  async update(cardId: string, data: UpdateContentRequest): Promise<Content> {
-    const response = await this.post<{ card: Content }>("/content", {
-      ...data,
-      cardId,
-    });
+  async update(
+    cardId: string,
+    data: UpdateContentRequest,
+    options?: CallOptions,
+  ): Promise<Content> {
+    if (data.content) {
+      this.assertValid(data.content);
+    }
+    const response = await this.post<{ card: Content }>(
+      "/content",
+      {
+        ...data,
+        cardId,
+      },
+      { ...options, operation: "content.update", route: "/content" },
+    );
     return response.card;
   }
 
   /**
    * Delete content
    * @param cardId - The card ID
+   * @param options - Per-request options
    */
-  async remove(cardId: string): Promise<void> {
-    await this.delete<void>(`/content/${cardId}`);
+  async remove(cardId: string, options?: CallOptions): Promise<void> {
+    await this.delete<void>(`/content/${cardId}`, {
+      ...options,
+      operation: "content.remove",
+      route: "/content/{cardId}",
+    });
   }
 
   /**
    * List user's MYO (Make Your Own) content
+   * @param options - Per-request options
    * @returns List of MYO content
    */
-  async listMYO(): Promise<Content[]> {
-    const response = await this.get<{ cards: Content[] }>("/content/mine");
+  async listMYO(options?: CallOptions): Promise<Content[]> {
+    const response = await this.get<{ cards: Content[] }>(
+      "/content/mine",
+      undefined,
+      { ...options, operation: "content.listMYO", route: "/content/mine" },
+    );
     return response.cards;
   }
+
+  /**
+   * Throw a YotoValidationError if validation is enabled and finds issues
+   */
+  private assertValid(content: ContentData): void {
+    if (!this.validate) {
+      return;
+    }
+    const issues = validateContent(content);
+    const [first] = issues;
+    if (first) {
+      const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+      throw new YotoValidationError(
+        `Invalid content: ${first.path} ${first.message}${more}`,
+        issues,
+      );
+    }
+  }
 }
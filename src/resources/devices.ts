@@ -1,4 +1,5 @@
 import type {
+  CallOptions,
   Device,
   DeviceConfig,
   DeviceStatus,
@@ -11,11 +12,18 @@ import { YotoResource } from "../yoto-resource.ts";
 export class DevicesResource extends YotoResource {
   /**
    * List all devices
+   * @param options - Per-request options
    * @returns Array of devices
    */
-  async list(): Promise<Device[]> {
+  async list(options?: CallOptions): Promise<Device[]> {
     const response = await this.get<{ devices: Device[] }>(
       "/device-v2/devices/mine",
+      undefined,
+      {
+        ...options,
+        operation: "devices.list",
+        route: "/device-v2/devices/mine",
+      },
     );
     return response.devices;
   }
@@ -23,52 +31,89 @@ export class DevicesResource extends YotoResource {
   /**
    * Get device status
    * @param deviceId - The device ID
+   * @param options - Per-request options
    * @returns Device status
    */
-  async getStatus(deviceId: string): Promise<DeviceStatus> {
-    return this.get<DeviceStatus>(`/device-v2/${deviceId}/status`);
+  async getStatus(
+    deviceId: string,
+    options?: CallOptions,
+  ): Promise<DeviceStatus> {
+    return this.get<DeviceStatus>(`/device-v2/${deviceId}/status`, undefined, {
+      ...options,
+      operation: "devices.getStatus",
+      route: "/device-v2/{deviceId}/status",
+    });
   }
 
   /**
    * Get device configuration
    * @param deviceId - The device ID
+   * @param options - Per-request options
    * @returns Device configuration
    */
-  async getConfig(deviceId: string): Promise<DeviceConfig> {
-    return this.get<DeviceConfig>(`/device-v2/${deviceId}/config`);
+  async getConfig(
+    deviceId: string,
+    options?: CallOptions,
+  ): Promise<DeviceConfig> {
+    return this.get<DeviceConfig>(`/device-v2/${deviceId}/config`, undefined, {
+      ...options,
+      operation: "devices.getConfig",
+      route: "/device-v2/{deviceId}/config",
+    });
   }
 
   /**
    * Update device configuration
    * @param deviceId - The device ID
    * @param data - Configuration update data
+   * @param options - Per-request options
    * @returns Updated device configuration
    */
   async updateConfig(
     deviceId: string,
     data: UpdateDeviceConfigRequest,
+    options?: CallOptions,
   ): Promise<DeviceConfig> {
-    return this.patch<DeviceConfig>(`/device-v2/${deviceId}/config`, data);
+    return this.patch<DeviceConfig>(`/device-v2/${deviceId}/config`, data, {
+      ...options,
+      operation: "devices.updateConfig",
+      route: "/device-v2/{deviceId}/config",
+    });
   }
 
   /**
    * Send command to device
    * @param deviceId - The device ID
    * @param data - Command to send
+   * @param options - Per-request options
    */
-  async sendCommand(deviceId: string, data: SendCommandRequest): Promise<void> {
-    await this.post<void>(`/device-v2/${deviceId}/command`, data);
+  async sendCommand(
+    deviceId: string,
+    data: SendCommandRequest,
+    options?: CallOptions,
+  ): Promise<void> {
+    await this.post<void>(`/device-v2/${deviceId}/command`, data, {
+      ...options,
+      operation: "devices.sendCommand",
+      route: "/device-v2/{deviceId}/command",
+    });
   }
 
   /**
    * Update device shortcuts (beta)
    * @param deviceId - The device ID
    * @param data - Shortcuts configuration
+   * @param options - Per-request options
    */
   async updateShortcuts(
     deviceId: string,
     data: UpdateShortcutsRequest,
+    options?: CallOptions,
   ): Promise<void> {
-    await this.put<void>(`/device-v2/${deviceId}/shortcuts`, data);
+    await this.put<void>(`/device-v2/${deviceId}/shortcuts`, data, {
+      ...options,
+      operation: "devices.updateShortcuts",
+      route: "/device-v2/{deviceId}/shortcuts",
+    });
   }
 }
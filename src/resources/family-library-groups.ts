@@ -1,4 +1,5 @@
 import type {
+  CallOptions,
   CreateGroupRequest,
   FamilyLibraryGroup,
   UpdateGroupRequest,
@@ -8,29 +9,56 @@ import { YotoResource } from "../yoto-resource.ts";
 export class FamilyLibraryGroupsResource extends YotoResource {
   /**
    * List all family library groups
+   * @param options - Per-request options
    * @returns List of groups
    */
-  async list(): Promise<FamilyLibraryGroup[]> {
-    return this.get<FamilyLibraryGroup[]>("/card/family/library/groups");
+  async list(options?: CallOptions): Promise<FamilyLibraryGroup[]> {
+    return this.get<FamilyLibraryGroup[]>(
+      "/card/family/library/groups",
+      undefined,
+      {
+        ...options,
+        operation: "familyLibraryGroups.list",
+        route: "/card/family/library/groups",
+      },
+    );
   }
 
   /**
    * Create a new group
    * @param data - Group creation data
+   * @param options - Per-request options
    * @returns The created group
    */
-  async create(data: CreateGroupRequest): Promise<FamilyLibraryGroup> {
-    return this.post<FamilyLibraryGroup>("/card/family/library/groups", data);
+  async create(
+    data: CreateGroupRequest,
+    options?: CallOptions,
+  ): Promise<FamilyLibraryGroup> {
+    return this.post<FamilyLibraryGroup>("/card/family/library/groups", data, {
+      ...options,
+      operation: "familyLibraryGroups.create",
+      route: "/card/family/library/groups",
+    });
   }
 
   /**
    * Get a group by ID
    * @param groupId - The group ID
+   * @param options - Per-request options
    * @returns The group
    */
-  async retrieve(groupId: string): Promise<FamilyLibraryGroup> {
+  async retrieve(
+    groupId: string,
+    options?: CallOptions,
+  ): Promise<FamilyLibraryGroup> {
     return this.get<FamilyLibraryGroup>(
       `/card/family/library/groups/${groupId}`,
+      undefined,
+      {
+        ...options,
+        operation: "familyLibraryGroups.retrieve",
+        route: "/card/family/library/groups/{groupId}",
+      },
     );
   }
 
@@ -38,23 +66,35 @@ export class FamilyLibraryGroupsResource extends YotoResource {
    * Update a group
    * @param groupId - The group ID
    * @param data - Group update data
+   * @param options - Per-request options
    * @returns The updated group
    */
   async update(
     groupId: string,
     data: UpdateGroupRequest,
+    options?: CallOptions,
   ): Promise<FamilyLibraryGroup> {
     return this.put<FamilyLibraryGroup>(
       `/card/family/library/groups/${groupId}`,
       data,
+      {
+        ...options,
+        operation: "familyLibraryGroups.update",
+        route: "/card/family/library/groups/{groupId}",
+      },
     );
   }
 
   /**
    * Delete a group
    * @param groupId - The group ID
+   * @param options - Per-request options
    */
-  async remove(groupId: string): Promise<void> {
-    await this.delete<void>(`/card/family/library/groups/${groupId}`);
+  async remove(groupId: string, options?: CallOptions): Promise<void> {
+    await this.delete<void>(`/card/family/library/groups/${groupId}`, {
+      ...options,
+      operation: "familyLibraryGroups.remove",
+      route: "/card/family/library/groups/{groupId}",
+    });
   }
 }
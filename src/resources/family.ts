@@ -1,4 +1,4 @@
-import type { FamilyImage, UploadImageResponse } from "../types";
+import type { CallOptions, FamilyImage, UploadImageResponse } from "../types";
 import { YotoResource } from "../yoto-resource.ts";
 
 export class FamilyResource extends YotoResource {
@@ -6,10 +6,11 @@ export class FamilyResource extends YotoResource {
    * Get a family image by ID
    * Note: This fetches from the list and finds the matching image
    * @param imageId - The image ID
+   * @param options - Per-request options
    * @returns The family image
    */
-  async getImage(imageId: string): Promise<FamilyImage> {
-    const images = await this.listImages();
+  async getImage(imageId: string, options?: CallOptions): Promise<FamilyImage> {
+    const images = await this.listImages(options);
     const image = images.find((img) => img.imageId === imageId);
 
     if (!image) {
@@ -21,11 +22,18 @@ export class FamilyResource extends YotoResource {
 
   /**
    * List all family images
+   * @param options - Per-request options
    * @returns Array of family images
    */
-  async listImages(): Promise<FamilyImage[]> {
+  async listImages(options?: CallOptions): Promise<FamilyImage[]> {
     const response = await this.get<{ images: FamilyImage[] }>(
       "/media/family/images",
+      undefined,
+      {
+        ...options,
+        operation: "family.listImages",
+        route: "/media/family/images",
+      },
     );
     return response.images;
   }
@@ -33,13 +41,21 @@ export class FamilyResource extends YotoResource {
   /**
    * Upload a family image
    * @param file - Image file data
+   * @param options - Per-request options
    * @returns Upload response with image ID and URL
    */
-  async uploadImage(file: Buffer | Blob): Promise<UploadImageResponse> {
+  async uploadImage(
+    file: Buffer | Blob,
+    options?: CallOptions,
+  ): Promise<UploadImageResponse> {
     return this.client.request<UploadImageResponse>("/media/family/images", {
+      ...options,
+      operation: "family.uploadImage",
+      route: "/media/family/images",
       method: "POST",
       headers: {
         "Content-Type": "image/jpeg",
+        ...options?.headers,
       },
       body: file,
     });
@@ -1,33 +1,64 @@
-import type { ListIconsResponse, UploadIconResponse } from "../types";
+import type {
+  CallOptions,
+  ListIconsResponse,
+  UploadIconResponse,
+} from "../types";
 import { YotoResource } from "../yoto-resource.ts";
 
 export class IconsResource extends YotoResource {
   /**
    * List public icons
+   * @param options - Per-request options
    * @returns List of public icons
    */
-  async listPublic(): Promise<ListIconsResponse> {
-    return this.get<ListIconsResponse>("/media/displayIcons/user/yoto");
+  async listPublic(options?: CallOptions): Promise<ListIconsResponse> {
+    return this.get<ListIconsResponse>(
+      "/media/displayIcons/user/yoto",
+      undefined,
+      {
+        ...options,
+        operation: "icons.listPublic",
+        route: "/media/displayIcons/user/yoto",
+      },
+    );
   }
 
   /**
    * List user's custom icons
+   * @param options - Per-request options
    * @returns List of user icons
    */
-  async listUser(): Promise<ListIconsResponse> {
-    return this.get<ListIconsResponse>("/media/displayIcons/user/me");
+  async listUser(options?: CallOptions): Promise<ListIconsResponse> {
+    return this.get<ListIconsResponse>(
+      "/media/displayIcons/user/me",
+      undefined,
+      {
+        ...options,
+        operation: "icons.listUser",
+        route: "/media/displayIcons/user/me",
+      },
+    );
   }
 
   /**
    * Upload a custom icon
    * @param file - Icon file data
    * @param name - Icon name
+   * @param options - Per-request options
    * @returns Upload response with icon ID and URL
    */
-  async upload(file: Buffer | Blob, name: string): Promise<UploadIconResponse> {
-    return this.post<UploadIconResponse>("/icons", {
-      file,
-      name,
-    });
+  async upload(
+    file: Buffer | Blob,
+    name: string,
+    options?: CallOptions,
+  ): Promise<UploadIconResponse> {
+    return this.post<UploadIconResponse>(
+      "/icons",
+      {
+        file,
+        name,
+      },
+      { ...options, operation: "icons.upload", route: "/icons" },
+    );
   }
 }
@@ -1,53 +1,189 @@
+import { resolveAudioFile, trackUploadProgress } from "../audio-upload.ts";
+import { YotoTranscodeTimeoutError } from "../error.ts";
+import { sleep } from "../sleep.ts";
 import type {
+  AudioSource,
+  AudioUploadOptions,
   AudioUploadUrlResponse,
+  CallOptions,
+  CompletedTranscode,
   CoverImageUploadOptions,
   CoverImageUploadResponse,
   TranscodeResponse,
   TranscodeStatusOptions,
+  WaitForTranscodeOptions,
 } from "../types";
 import { YotoResource } from "../yoto-resource.ts";
 
 export class MediaResource extends YotoResource {
   /**
    * Get a presigned URL for uploading audio files
+   * @param options - Per-request options
    * @returns Upload URL and upload ID for transcoding
    */
-  async getAudioUploadUrl(): Promise<AudioUploadUrlResponse> {
-    return this.get<AudioUploadUrlResponse>("/media/transcode/audio/uploadUrl");
+  async getAudioUploadUrl(
+    options?: CallOptions,
+  ): Promise<AudioUploadUrlResponse> {
+    return this.get<AudioUploadUrlResponse>(
+      "/media/transcode/audio/uploadUrl",
+      undefined,
+      {
+        ...options,
+        operation: "media.getAudioUploadUrl",
+        route: "/media/transcode/audio/uploadUrl",
+      },
+    );
+  }
+
+  /**
+   * Upload an audio file to a new presigned URL, ready for transcoding
+   * The PUT uses the client's fetch, timeout, retries and logging, but the
+   * Yoto access token is not sent
+   * @param file - File path (Node.js only), Buffer, Blob or ReadableStream
+   * @param options - Upload and per-request options
+   * @returns The upload ID to pass to waitForTranscode
+   */
+  async uploadAudio(
+    file: AudioSource,
+    options: AudioUploadOptions = {},
+  ): Promise<string> {
+    const { contentType, onProgress, ...requestOptions } = options;
+    const audio = await resolveAudioFile({ file, contentType });
+    const { upload } = await this.getAudioUploadUrl(requestOptions);
+
+    const { body, done } = trackUploadProgress(audio.data, onProgress);
+    await this.client.request<unknown>(upload.uploadUrl, {
+      ...requestOptions,
+      operation: "media.uploadAudio",
+      method: "PUT",
+      authenticate: false,
+      headers: { "Content-Type": audio.contentType },
+      body,
+      responseType: "text",
+      // A stream can only be read once, so its upload can't be retried
+      ...(body instanceof ReadableStream ? { maxRetries: 0 } : {}),
+    });
+    done();
+
+    return upload.uploadId;
   }
 
   /**
    * Get transcode status for an uploaded audio file
    * @param uploadId - The upload ID from getAudioUploadUrl
-   * @param options - Transcode options
+   * @param options - Transcode and per-request options
    * @returns Transcode status with SHA256 hash when complete
    */
   async getTranscodeStatus(
     uploadId: string,
     options: TranscodeStatusOptions = {},
   ): Promise<TranscodeResponse> {
-    const { loudnorm = false } = options;
+    const { loudnorm = false, ...requestOptions } = options;
 
-    return this.get<TranscodeResponse>(`/media/upload/${uploadId}/transcoded`, {
-      loudnorm,
-    });
+    return this.get<TranscodeResponse>(
+      `/media/upload/${uploadId}/transcoded`,
+      { loudnorm },
+      {
+        ...requestOptions,
+        operation: "media.getTranscodeStatus",
+        route: "/media/upload/{uploadId}/transcoded",
+      },
+    );
+  }
+
+  /**
+   * Poll the transcode status until the SHA256 hash and audio info are available
+   * Polls back off exponentially from pollInterval up to maxPollInterval
+   * @param uploadId - The upload ID from getAudioUploadUrl
+   * @param options - Wait, transcode and per-request options
+   * @returns The completed transcode
+   * @throws YotoTranscodeTimeoutError if transcodeTimeout passes first
+   */
+  async waitForTranscode(
+    uploadId: string,
+    options: WaitForTranscodeOptions = {},
+  ): Promise<CompletedTranscode> {
+    const {
+      transcodeTimeout = 300000,
+      pollInterval = 500,
+      maxPollInterval = 5000,
+      onProgress,
+      ...statusOptions
+    } = options;
+    const startedAt = Date.now();
+    const deadline = startedAt + transcodeTimeout;
+    let delay = pollInterval;
+
+    // Abort polls, including their retries, once the deadline passes
+    const controller = new AbortController();
+    const { signal: callerSignal } = statusOptions;
+    const abortFromCaller = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener("abort", abortFromCaller, { once: true });
+    const deadlineTimer = setTimeout(
+      () => controller.abort(),
+      transcodeTimeout,
+    );
+
+    try {
+      callerSignal?.throwIfAborted();
+      for (let attempt = 1; ; attempt++) {
+        const remaining = deadline - Date.now();
+        const { transcode } = await this.getTranscodeStatus(uploadId, {
+          ...statusOptions,
+          signal: controller.signal,
+          timeout: Math.min(statusOptions.timeout ?? remaining, remaining),
+        });
+        onProgress?.({
+          uploadId,
+          attempt,
+          elapsedMs: Date.now() - startedAt,
+          transcode,
+        });
+        const { transcodedSha256, transcodedInfo } = transcode;
+        if (transcodedSha256 && transcodedInfo) {
+          return { transcodedSha256, transcodedInfo };
+        }
+
+        const left = deadline - Date.now();
+        if (left <= 0) {
+          throw new YotoTranscodeTimeoutError(uploadId, transcodeTimeout);
+        }
+        await sleep(Math.min(delay, left), controller.signal);
+        delay = Math.min(delay * 2, maxPollInterval);
+      }
+    } catch (error) {
+      if (!callerSignal?.aborted && Date.now() >= deadline) {
+        throw new YotoTranscodeTimeoutError(uploadId, transcodeTimeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(deadlineTimer);
+      callerSignal?.removeEventListener("abort", abortFromCaller);
+    }
   }
 
   /**
    * Upload a cover image
    * @param imageBlob - Image file data
-   * @param options - Upload options
+   * @param options - Upload and per-request options
    * @returns Upload response with media ID and URL
    */
   async uploadCoverImage(
     imageBlob: Buffer | Blob,
     options: CoverImageUploadOptions = {},
   ): Promise<CoverImageUploadResponse> {
-    const { autoconvert = true, coverType = "default" } = options;
+    const {
+      autoconvert = true,
+      coverType = "default",
+      ...requestOptions
+    } = options;
 
     return this.client.request<CoverImageUploadResponse>(
       "/media/coverImage/user/me/upload",
       {
+        ...requestOptions,
+        operation: "media.uploadCoverImage",
+        route: "/media/coverImage/user/me/upload",
         method: "POST",
         query: {
           autoconvert,
@@ -55,6 +191,7 @@ export class MediaResource extends YotoResource {
         },
         headers: {
           "Content-Type": "image/jpeg",
+          ...requestOptions.headers,
         },
         body: imageBlob,
       },
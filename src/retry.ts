@@ -0,0 +1,89 @@
+import {
+  YotoAuthenticationError,
+  YotoConnectionError,
+  YotoError,
+  YotoRateLimitError,
+} from "./error.ts";
+import type { HttpMethod, RetryContext, RetryPolicy } from "./types";
+
+const DEFAULT_RETRY_ON_STATUS = [408, 409, 425, 429, 500, 502, 503, 504];
+const DEFAULT_RETRY_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 10000;
+const DEFAULT_JITTER = 1000;
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "shouldRetry">> &
+  Pick<RetryPolicy, "shouldRetry">;
+
+/**
+ * Fill in defaults for any retry settings that were not provided
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy = {},
+): ResolvedRetryPolicy {
+  return {
+    retryOnStatus: policy.retryOnStatus ?? DEFAULT_RETRY_ON_STATUS,
+    retryMethods: policy.retryMethods ?? DEFAULT_RETRY_METHODS,
+    baseDelay: policy.baseDelay ?? DEFAULT_BASE_DELAY,
+    maxDelay: policy.maxDelay ?? DEFAULT_MAX_DELAY,
+    jitter: policy.jitter ?? DEFAULT_JITTER,
+    shouldRetry: policy.shouldRetry,
+  };
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ * Authentication and connection errors are never retried. A 429 is retried
+ * for any method because the server rejected it before doing any work.
+ */
+export function isRetryable(
+  policy: ResolvedRetryPolicy,
+  error: Error,
+  context: RetryContext,
+  idempotent?: boolean,
+): boolean {
+  if (
+    error instanceof YotoAuthenticationError ||
+    error instanceof YotoConnectionError
+  ) {
+    return false;
+  }
+
+  const decision = policy.shouldRetry?.(error, context);
+  if (decision !== undefined) {
+    return decision;
+  }
+
+  if (
+    !(error instanceof YotoRateLimitError) &&
+    !idempotent &&
+    !policy.retryMethods.includes(context.method)
+  ) {
+    return false;
+  }
+
+  if (error instanceof YotoError && error.statusCode !== undefined) {
+    return policy.retryOnStatus.includes(error.statusCode);
+  }
+
+  // Network failures and timeouts
+  return true;
+}
+
+/**
+ * Exponential backoff with jitter, or the server's Retry-After when given
+ */
+export function calculateRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfter?: number,
+): number {
+  if (retryAfter) {
+    return retryAfter * 1000;
+  }
+
+  const exponentialDelay = policy.baseDelay * 2 ** attempt;
+  const jitter = Math.random() * policy.jitter;
+
+  return Math.min(exponentialDelay + jitter, policy.maxDelay);
+}
@@ -0,0 +1,175 @@
+import type { TokenResponse } from "./types/common.ts";
+
+/**
+ * Interface for token persistence
+ * RefreshableAuthProvider saves tokens here whenever they change
+ */
+export interface TokenStore {
+  /**
+   * Load previously saved tokens
+   * @returns The tokens, or undefined if none are stored
+   */
+  load(): Promise<TokenResponse | undefined>;
+  save(tokens: TokenResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory token store - tokens are lost when the process exits
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens?: TokenResponse;
+
+  constructor(tokens?: TokenResponse) {
+    this.tokens = tokens;
+  }
+
+  async load(): Promise<TokenResponse | undefined> {
+    return this.tokens ? { ...this.tokens } : undefined;
+  }
+
+  async save(tokens: TokenResponse): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = undefined;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * JSON file token store (Node.js only)
+ * Writes are atomic and the file is only readable by the current user
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(protected readonly path: string) {}
+
+  async load(): Promise<TokenResponse | undefined> {
+    const { readFile } = await import("node:fs/promises");
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+    return this.deserialize(contents);
+  }
+
+  async save(tokens: TokenResponse): Promise<void> {
+    const { mkdir, rename, rm, writeFile } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+    const contents = await this.serialize(tokens);
+
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so a crash never leaves a partial file
+    const tempPath = `${this.path}.${crypto.randomUUID()}.tmp`;
+    try {
+      await writeFile(tempPath, contents, { mode: 0o600 });
+      await rename(tempPath, this.path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(this.path, { force: true });
+  }
+
+  protected async serialize(tokens: TokenResponse): Promise<string> {
+    return JSON.stringify(tokens, null, 2);
+  }
+
+  protected async deserialize(contents: string): Promise<TokenResponse> {
+    return JSON.parse(contents) as TokenResponse;
+  }
+}
+
+interface EncryptedTokenFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Encrypted file token store (Node.js only)
+ * Tokens are encrypted with AES-256-GCM using a key derived from the secret
+ */
+export class EncryptedFileTokenStore extends FileTokenStore {
+  constructor(
+    path: string,
+    private readonly secret: string,
+  ) {
+    super(path);
+  }
+
+  protected override async serialize(tokens: TokenResponse): Promise<string> {
+    const { createCipheriv, randomBytes } = await import("node:crypto");
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await this.deriveKey(salt);
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(tokens), "utf8"),
+      cipher.final(),
+    ]);
+
+    const file: EncryptedTokenFile = {
+      version: 1,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    return JSON.stringify(file);
+  }
+
+  protected override async deserialize(
+    contents: string,
+  ): Promise<TokenResponse> {
+    const { createDecipheriv } = await import("node:crypto");
+    const file = JSON.parse(contents) as EncryptedTokenFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported token file version: ${file.version}`);
+    }
+
+    const key = await this.deriveKey(Buffer.from(file.salt, "base64"));
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(file.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString("utf8")) as TokenResponse;
+  }
+
+  private async deriveKey(salt: Buffer): Promise<Buffer> {
+    const { scrypt } = await import("node:crypto");
+    return new Promise((resolve, reject) => {
+      scrypt(this.secret, salt, 32, (error, key) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(key);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { YotoError } from "./error.ts";
+import type { Span, SpanAttributes, TracingOptions } from "./types";
+
+// OpenTelemetry SpanKind.CLIENT and SpanStatusCode values
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Match a route template against a concrete path
+ * @returns Values of the {placeholders} in the template, keyed by name
+ */
+export function extractPathParams(
+  route: string,
+  path: string,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  const routeSegments = route.split("/");
+  const pathSegments = path.split("?")[0]?.split("/") ?? [];
+
+  routeSegments.forEach((segment, index) => {
+    const match = /^\{(\w+)\}$/.exec(segment);
+    const value = pathSegments[index];
+    if (match?.[1] && value !== undefined) {
+      params[match[1]] = decodeURIComponent(value);
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Start a client span for an API call
+ */
+export function startRequestSpan(
+  tracing: TracingOptions,
+  details: {
+    operation?: string;
+    route?: string;
+    /** Omitted for requests to other hosts, whose URLs may carry credentials */
+    path?: string;
+    method: string;
+    url: string;
+  },
+): Span {
+  const template = details.path && (details.route ?? details.path);
+  const attributes: SpanAttributes = {
+    "http.request.method": details.method,
+    "server.address": new URL(details.url).host,
+  };
+  if (template) {
+    attributes["url.template"] = template;
+  }
+
+  if (details.operation) {
+    attributes["yoto.operation"] = details.operation;
+  }
+
+  if (details.route && details.path) {
+    const params = extractPathParams(details.route, details.path);
+    for (const [name, value] of Object.entries(params)) {
+      attributes[`yoto.path.${name}`] = value;
+    }
+  }
+
+  return tracing.tracer.startSpan(
+    details.operation ??
+      (template ? `${details.method} ${template}` : details.method),
+    { kind: SPAN_KIND_CLIENT, attributes },
+  );
+}
+
+/**
+ * Add trace context headers for the span to an outgoing request
+ * Defaults to a W3C traceparent header
+ */
+export function injectTraceContext(
+  tracing: TracingOptions,
+  span: Span,
+  headers: Record<string, string>,
+): void {
+  if (tracing.inject) {
+    tracing.inject(span, headers);
+    return;
+  }
+
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+  headers.traceparent = `00-${traceId}-${spanId}-${flags}`;
+}
+
+/**
+ * Record the outcome of an API call and close its span
+ */
+export function endRequestSpan(
+  span: Span,
+  outcome: {
+    status?: number;
+    requestId?: string;
+    error?: Error;
+  },
+): void {
+  const status =
+    outcome.status ??
+    (outcome.error instanceof YotoError ? outcome.error.statusCode : undefined);
+  if (status !== undefined) {
+    span.setAttribute("http.response.status_code", status);
+  }
+
+  const requestId =
+    outcome.requestId ??
+    (outcome.error instanceof YotoError ? outcome.error.requestId : undefined);
+  if (requestId) {
+    span.setAttribute("yoto.request_id", requestId);
+  }
+
+  if (outcome.error) {
+    span.recordException(outcome.error);
+    span.setStatus({
+      code: SPAN_STATUS_ERROR,
+      message: outcome.error.message,
+    });
+  } else {
+    span.setStatus({ code: SPAN_STATUS_OK });
+  }
+
+  span.end();
+}
@@ -1,8 +1,180 @@
+/**
+ * Minimal fetch signature accepted for transport injection
+ * Compatible with the global fetch, undici and most fetch polyfills
+ */
+export type FetchLike = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Structured logger, compatible with pino and console
+ * Each call receives an object of fields followed by a message
+ */
+export interface Logger {
+  debug(fields: Record<string, unknown>, message?: string): void;
+  info(fields: Record<string, unknown>, message?: string): void;
+  warn(fields: Record<string, unknown>, message?: string): void;
+  error(fields: Record<string, unknown>, message?: string): void;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Subset of an OpenTelemetry span used by the client
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  end(): void;
+}
+
+/**
+ * Subset of an OpenTelemetry tracer used by the client
+ * An @opentelemetry/api Tracer satisfies this interface
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: SpanAttributes },
+  ): Span;
+}
+
+export interface TracingOptions {
+  tracer: Tracer;
+  /**
+   * Write trace context for the span into outgoing headers
+   * Defaults to a W3C traceparent header
+   */
+  inject?: (span: Span, headers: Record<string, string>) => void;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+
+/**
+ * Outgoing request as seen by middleware
+ * Middleware may return a modified copy before passing it to `next`
+ */
+export interface MiddlewareRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: Buffer | Blob | ReadableStream<Uint8Array> | string;
+  signal?: AbortSignal;
+  /** Zero-based retry attempt this request belongs to */
+  attempt: number;
+}
+
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Wraps a single HTTP attempt
+ * Call `next` to continue the chain, call it again to retry, or return a
+ * Response without calling it to short-circuit the request
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext,
+) => Promise<Response>;
+
+export interface RetryContext {
+  /** Zero-based attempt that just failed */
+  attempt: number;
+  method: HttpMethod;
+  url: string;
+  /** HTTP status of the failed attempt, if a response was received */
+  statusCode?: number;
+}
+
+/**
+ * Controls which failed requests are retried and how long to wait between attempts
+ */
+export interface RetryPolicy {
+  /** Status codes that may be retried (default: 408, 409, 425, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Methods that are safe to retry (default: GET, PUT, DELETE) */
+  retryMethods?: HttpMethod[];
+  /** Initial backoff delay in milliseconds (default: 1000) */
+  baseDelay?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Maximum random jitter added to each delay in milliseconds (default: 1000) */
+  jitter?: number;
+  /**
+   * Decide per error whether to retry
+   * Return undefined to fall back to the status and method rules
+   */
+  shouldRetry?: (error: Error, context: RetryContext) => boolean | undefined;
+}
+
+/**
+ * Rate limit state reported by the API in X-RateLimit-* headers
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** When the current window resets */
+  resetAt?: Date;
+}
+
+/**
+ * Delay requests once the reported remaining quota runs low
+ */
+export interface RateLimitThrottleOptions {
+  /** Start waiting for the window reset at or below this many remaining requests (default: 0) */
+  minRemaining?: number;
+  /** Longest time to wait for a reset in milliseconds (default: 60000) */
+  maxWait?: number;
+}
+
+/**
+ * Client-side limits shared by all requests made through one client
+ */
+export interface RequestLimiterOptions {
+  /** Sustained request rate (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst before the rate applies (default: requestsPerSecond) */
+  burst?: number;
+  /** Maximum requests in flight at once (default: unlimited) */
+  maxConcurrent?: number;
+}
+
+export interface RequestQueueStats {
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Requests currently being sent or read */
+  inFlight: number;
+}
+
 export interface YotoConfig {
   baseUrl?: string;
   timeout?: number;
   maxRetries?: number;
   headers?: Record<string, string>;
+  middleware?: Middleware[];
+  fetch?: FetchLike;
+  retryPolicy?: RetryPolicy;
+  rateLimitThrottle?: boolean | RateLimitThrottleOptions;
+  limiter?: RequestLimiterOptions;
+  logger?: Logger;
+  tracing?: TracingOptions;
+  /** Validate content locally before content.create and content.update (default: false) */
+  validateContent?: boolean;
+}
+
+/**
+ * A problem found by local validation
+ */
+export interface ValidationIssue {
+  /** JSON path to the offending value, e.g. $.chapters[0].key */
+  path: string;
+  /** Machine-readable reason, e.g. duplicate_key */
+  code: string;
+  message: string;
 }
 
 export interface YotoErrorResponse {
@@ -14,17 +186,79 @@ export interface YotoErrorResponse {
   requestId?: string;
 }
 
-export interface RequestOptions {
-  method?: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+/**
+ * Per-call overrides accepted by every resource method
+ */
+export interface CallOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Overrides the client timeout for each attempt, in milliseconds */
+  timeout?: number;
+  /** Overrides the client retry limit for this call */
+  maxRetries?: number;
+  /** Extra headers sent with this call */
   headers?: Record<string, string>;
+  /** Allow retries for this call even if its method is not retried by default */
+  idempotent?: boolean;
+  /** Called with the raw response details once the call succeeds */
+  onResponse?: (response: YotoResponse<unknown>) => void;
+}
+
+/**
+ * Parsed body together with details of the HTTP exchange that produced it
+ */
+export interface YotoResponse<T> {
+  /** Parsed response body, before any unwrapping by resource methods */
+  data: T;
+  /** The final Response; its body has already been read */
+  response: Response;
+  /** Value of the X-Request-Id header, useful when contacting Yoto support */
+  requestId?: string;
+  /** Number of HTTP attempts made, including retries */
+  attempts: number;
+  /** Time from the first attempt to the parsed response, in milliseconds */
+  durationMs: number;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * How to read a successful response body
+ * When omitted the body is parsed from its Content-Type, and empty or 204
+ * responses resolve to undefined
+ * With "stream", the caller's signal also cancels the body, but the timeout
+ * only covers the wait for the response headers
+ */
+export type ResponseType = "json" | "text" | "arrayBuffer" | "stream";
+
+export interface RequestOptions extends CallOptions {
+  /** API operation name used for tracing, e.g. "devices.getStatus" */
+  operation?: string;
+  /** Path template with IDs as {placeholders}, e.g. "/device-v2/{deviceId}/status" */
+  route?: string;
+  method?: HttpMethod;
   body?: unknown;
   query?: Record<string, string | number | boolean | undefined>;
+  responseType?: ResponseType;
+  /**
+   * Send the Yoto access token (default: true); false for presigned URLs
+   * Unauthenticated requests only carry User-Agent and Content-Type headers
+   * and skip middleware and trace context
+   */
+  authenticate?: boolean;
 }
 
 export interface AuthConfig {
   authBaseUrl?: string;
   apiAudience?: string;
   timeout?: number;
+  /** Scopes to request (default: openid, profile, email, offline_access) */
+  scopes?: string[];
+  /** Extra parameters for the authorize and device code requests, e.g. prompt or connection */
+  authorizeParams?: Record<string, string>;
+  /** Extra parameters for every token endpoint request, including refresh */
+  tokenParams?: Record<string, string>;
+  fetch?: FetchLike;
+  logger?: Logger;
 }
 
 export interface TokenResponse {
@@ -32,6 +266,25 @@ export interface TokenResponse {
   refresh_token: string;
   expires_in?: number;
   token_type?: string;
+  id_token?: string;
+}
+
+export interface AuthorizationUrl {
+  url: string;
+  codeVerifier: string;
+  /** Check this against the state on the redirect */
+  state: string;
+  /** Check this against the nonce in the ID token */
+  nonce: string;
+}
+
+/**
+ * Values saved from generateAuthUrl that the redirect must match
+ */
+export interface AuthorizationCallbackExpected {
+  state: string;
+  codeVerifier: string;
+  nonce?: string;
 }
 
 export interface DeviceCodeResponse {
@@ -42,3 +295,21 @@ export interface DeviceCodeResponse {
   interval: number;
   expires_in: number;
 }
+
+export interface DevicePollStatus {
+  /** Milliseconds until the next poll */
+  intervalMs: number;
+  /** Milliseconds until the device code expires, if known */
+  remainingMs?: number;
+}
+
+export interface PollForTokenOptions {
+  /** Stop polling when aborted */
+  signal?: AbortSignal;
+  /** Seconds until the device code expires, from DeviceCodeResponse.expires_in */
+  expiresIn?: number;
+  /** Called while the user has not finished authorizing */
+  onPending?: (status: DevicePollStatus) => void;
+  /** Called when the server asks the client to poll less often */
+  onSlowDown?: (status: DevicePollStatus) => void;
+}
@@ -1,3 +1,6 @@
+import type { CallOptions } from "./common.ts";
+import type { AudioSource } from "./media.ts";
+
 // Track display configuration
 export interface TrackDisplay {
   icon16x16: string | null;
@@ -111,3 +114,40 @@ export interface UpdateContentRequest {
 export interface ListMYOContentResponse {
   content: Content[];
 }
+
+// Local audio file for content.createFromAudio: a path, raw data, or data with a title
+export type AudioFileInput =
+  | AudioSource
+  | {
+      /** File path, or the audio data itself */
+      file: AudioSource;
+      /** Chapter title; defaults to the audio's own title, then the file name */
+      title?: string;
+      /** MIME type for the upload; detected from the file name when omitted */
+      contentType?: string;
+    };
+
+// Progress of one file through content.createFromAudio
+export interface AudioUploadProgress {
+  /** Position of the file in the input list */
+  index: number;
+  stage: "uploading" | "transcoding" | "transcoded";
+  /** Files fully transcoded so far */
+  completed: number;
+  total: number;
+}
+
+// Options for content.createFromAudio
+export interface CreateFromAudioOptions extends CallOptions {
+  /** Card title */
+  title: string;
+  /** Files uploaded and transcoded at the same time (default: 3) */
+  concurrency?: number;
+  /** Normalize loudness while transcoding (default: false) */
+  loudnorm?: boolean;
+  /** Give up waiting for a transcode after this many milliseconds (default: 300000) */
+  transcodeTimeout?: number;
+  onProgress?: (progress: AudioUploadProgress) => void;
+  /** Card metadata such as description or cover; media totals are computed */
+  metadata?: Omit<ContentMetadata, "media">;
+}
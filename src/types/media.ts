@@ -1,3 +1,5 @@
+import type { CallOptions } from "./common.ts";
+
 // Audio upload URL request/response
 export interface AudioUploadUrlResponse {
   upload: {
@@ -6,6 +8,23 @@ export interface AudioUploadUrlResponse {
   };
 }
 
+// Audio to upload: a file path (Node.js only) or the data itself
+export type AudioSource = string | Buffer | Blob | ReadableStream<Uint8Array>;
+
+// Bytes sent so far by media.uploadAudio
+export interface UploadProgress {
+  loaded: number;
+  /** Unknown for streams */
+  total?: number;
+}
+
+// Audio upload options
+export interface AudioUploadOptions extends CallOptions {
+  /** MIME type; detected from the file name or Blob type when omitted */
+  contentType?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
 // Transcoded audio info
 export interface TranscodedInfo {
   duration?: number;
@@ -27,12 +46,38 @@ export interface TranscodeResponse {
 }
 
 // Transcode status options
-export interface TranscodeStatusOptions {
+export interface TranscodeStatusOptions extends CallOptions {
   loudnorm?: boolean;
 }
 
+// Transcode with the SHA256 hash and audio info present
+export interface CompletedTranscode {
+  transcodedSha256: string;
+  transcodedInfo: TranscodedInfo;
+}
+
+// Progress reported after each transcode status poll
+export interface TranscodeWaitProgress {
+  uploadId: string;
+  /** Number of status polls made so far */
+  attempt: number;
+  elapsedMs: number;
+  transcode: TranscodeResponse["transcode"];
+}
+
+// Transcode wait options
+export interface WaitForTranscodeOptions extends TranscodeStatusOptions {
+  /** Overall time to wait for the transcode, in milliseconds (default: 300000) */
+  transcodeTimeout?: number;
+  /** Delay before the second poll, doubled after each poll (default: 500) */
+  pollInterval?: number;
+  /** Longest delay between polls (default: 5000) */
+  maxPollInterval?: number;
+  onProgress?: (progress: TranscodeWaitProgress) => void;
+}
+
 // Cover image upload options
-export interface CoverImageUploadOptions {
+export interface CoverImageUploadOptions extends CallOptions {
   autoconvert?: boolean;
   coverType?: string;
 }
@@ -0,0 +1,126 @@
+import type { ContentData, Track, ValidationIssue } from "./types";
+
+const YOTO_MEDIA_URL = /^yoto:#[A-Za-z0-9_-]+$/;
+const HTTP_URL = /^https?:\/\/\S+$/;
+
+/**
+ * Check content locally for mistakes the API would reject
+ * @param content - The content payload, e.g. CreateContentRequest.content
+ * @returns Issues found, each with a JSON path such as $.chapters[0].tracks[1].trackUrl
+ */
+export function validateContent(content: ContentData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, code: string, message: string) =>
+    issues.push({ path, code, message });
+
+  if (!Array.isArray(content?.chapters)) {
+    issue("$.chapters", "invalid_type", "chapters must be an array");
+    return issues;
+  }
+
+  const chapterKeys = new Set<string>();
+  content.chapters.forEach((chapter, chapterIndex) => {
+    const chapterPath = `$.chapters[${chapterIndex}]`;
+    checkKey(chapter.key, chapterKeys, `${chapterPath}.key`, issue);
+
+    if (!Array.isArray(chapter.tracks)) {
+      issue(`${chapterPath}.tracks`, "invalid_type", "tracks must be an array");
+      return;
+    }
+    const trackKeys = new Set<string>();
+    chapter.tracks.forEach((track, trackIndex) => {
+      const trackPath = `${chapterPath}.tracks[${trackIndex}]`;
+      checkKey(track.key, trackKeys, `${trackPath}.key`, issue);
+      checkTrack(track, trackPath, issue);
+    });
+  });
+
+  if (
+    content.playbackType !== undefined &&
+    content.playbackType !== "linear" &&
+    content.playbackType !== "random"
+  ) {
+    issue(
+      "$.playbackType",
+      "invalid_value",
+      'playbackType must be "linear" or "random"',
+    );
+  }
+  checkNonNegative(
+    content.config?.resumeTimeout,
+    "$.config.resumeTimeout",
+    issue,
+  );
+
+  return issues;
+}
+
+type AddIssue = (path: string, code: string, message: string) => void;
+
+function checkKey(
+  key: unknown,
+  seen: Set<string>,
+  path: string,
+  issue: AddIssue,
+): void {
+  if (typeof key !== "string" || key === "") {
+    issue(path, "required", "key is required");
+    return;
+  }
+  if (seen.has(key)) {
+    issue(path, "duplicate_key", `key "${key}" is already used`);
+  }
+  seen.add(key);
+}
+
+function checkTrack(track: Track, path: string, issue: AddIssue): void {
+  if (typeof track.title !== "string" || track.title === "") {
+    issue(`${path}.title`, "required", "title is required");
+  }
+  if (!track.format) {
+    issue(`${path}.format`, "required", "format is required");
+  }
+
+  const url = track.trackUrl;
+  if (track.type === "stream") {
+    if (typeof url !== "string" || !HTTP_URL.test(url)) {
+      issue(
+        `${path}.trackUrl`,
+        "invalid_url",
+        "stream trackUrl must be an http(s) URL",
+      );
+    }
+    if (track.fileSize) {
+      issue(
+        `${path}.fileSize`,
+        "invalid_value",
+        "stream tracks must not have a fileSize",
+      );
+    }
+  } else if (track.type === "audio") {
+    if (
+      typeof url !== "string" ||
+      !(YOTO_MEDIA_URL.test(url) || HTTP_URL.test(url))
+    ) {
+      issue(
+        `${path}.trackUrl`,
+        "invalid_url",
+        "trackUrl must be yoto:#<sha256> or an http(s) URL",
+      );
+    }
+  } else {
+    issue(`${path}.type`, "invalid_value", 'type must be "audio" or "stream"');
+  }
+
+  checkNonNegative(track.duration, `${path}.duration`, issue);
+  checkNonNegative(track.fileSize, `${path}.fileSize`, issue);
+}
+
+function checkNonNegative(value: unknown, path: string, issue: AddIssue): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    issue(path, "invalid_value", "must be a non-negative number");
+  }
+}
@@ -1,4 +1,7 @@
 import type { HttpClient } from "./http-client.ts";
+import type { RequestOptions } from "./types";
+
+type ResourceRequestOptions = Omit<RequestOptions, "method" | "body" | "query">;
 
 export class YotoResource {
   protected client: HttpClient;
@@ -10,36 +13,57 @@ export class YotoResource {
   protected async get<T>(
     path: string,
     query?: Record<string, unknown>,
+    options?: ResourceRequestOptions,
   ): Promise<T> {
     return this.client.request<T>(path, {
+      ...options,
       method: "GET",
       query: query as Record<string, string | number | boolean | undefined>,
     });
   }
 
-  protected async post<T>(path: string, body?: unknown): Promise<T> {
+  protected async post<T>(
+    path: string,
+    body?: unknown,
+    options?: ResourceRequestOptions,
+  ): Promise<T> {
     return this.client.request<T>(path, {
+      ...options,
       method: "POST",
       body,
     });
   }
 
-  protected async put<T>(path: string, body?: unknown): Promise<T> {
+  protected async put<T>(
+    path: string,
+    body?: unknown,
+    options?: ResourceRequestOptions,
+  ): Promise<T> {
     return this.client.request<T>(path, {
+      ...options,
       method: "PUT",
       body,
     });
   }
 
-  protected async patch<T>(path: string, body?: unknown): Promise<T> {
+  protected async patch<T>(
+    path: string,
+    body?: unknown,
+    options?: ResourceRequestOptions,
+  ): Promise<T> {
     return this.client.request<T>(path, {
+      ...options,
       method: "PATCH",
       body,
     });
   }
 
-  protected async delete<T>(path: string): Promise<T> {
+  protected async delete<T>(
+    path: string,
+    options?: ResourceRequestOptions,
+  ): Promise<T> {
     return this.client.request<T>(path, {
+      ...options,
       method: "DELETE",
     });
   }
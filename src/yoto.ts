@@ -7,7 +7,12 @@ import { FamilyResource } from "./resources/family.ts";
 import { FamilyLibraryGroupsResource } from "./resources/family-library-groups.ts";
 import { IconsResource } from "./resources/icons.ts";
 import { MediaResource } from "./resources/media.ts";
-import type { YotoConfig } from "./types";
+import type {
+  RateLimitInfo,
+  RequestQueueStats,
+  YotoConfig,
+  YotoResponse,
+} from "./types";
 
 interface YotoAuthConfig {
   accessToken?: string;
@@ -46,15 +51,48 @@ export class Yoto {
       timeout: config.timeout,
       maxRetries: config.maxRetries,
       headers: config.headers,
+      middleware: config.middleware,
+      fetch: config.fetch,
+      retryPolicy: config.retryPolicy,
+      rateLimitThrottle: config.rateLimitThrottle,
+      limiter: config.limiter,
+      logger: config.logger,
+      tracing: config.tracing,
     };
 
     this.httpClient = new HttpClient(authProvider, yotoConfig);
 
-    this.content = new ContentResource(this.httpClient);
+    this.media = new MediaResource(this.httpClient);
+    this.content = new ContentResource(this.httpClient, {
+      validate: config.validateContent,
+      media: this.media,
+    });
     this.devices = new DevicesResource(this.httpClient);
     this.family = new FamilyResource(this.httpClient);
     this.familyLibraryGroups = new FamilyLibraryGroupsResource(this.httpClient);
     this.icons = new IconsResource(this.httpClient);
-    this.media = new MediaResource(this.httpClient);
+  }
+
+  /**
+   * Rate limit state from the most recent API response that reported one
+   */
+  get rateLimit(): RateLimitInfo | undefined {
+    return this.httpClient.rateLimit;
+  }
+
+  /**
+   * Status, headers, request ID and timing of the most recent successful call
+   * With concurrent calls prefer the per-call onResponse option
+   */
+  get lastResponse(): YotoResponse<unknown> | undefined {
+    return this.httpClient.lastResponse;
+  }
+
+  /**
+   * Queue depth and in-flight count of the client-side request limiter
+   * A slot is released once the response is parsed, before a streamed body is read
+   */
+  get queueStats(): RequestQueueStats {
+    return this.httpClient.queueStats;
   }
 }
@@ -0,0 +1,517 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  RefreshableAuthProvider,
+  StaticTokenProvider,
+} from "../src/auth-provider.ts";
+import { YotoAuthenticationError, YotoConnectionError } from "../src/error.ts";
+import { MemoryTokenStore } from "../src/token-store.ts";
+
+const authBaseUrl = "https://login.yotoplay.com";
+const clientId = "test_client_id";
+
+function tokenResponse(accessToken: string, refreshToken: string): Response {
+  return new Response(
+    JSON.stringify({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: 3600,
+      token_type: "Bearer",
+    }),
+  );
+}
+
+describe("StaticTokenProvider", () => {
+  test("should return the configured token", async () => {
+    const provider = new StaticTokenProvider("static_token");
+    expect(await provider.getAccessToken()).toBe("static_token");
+  });
+});
+
+describe("RefreshableAuthProvider", () => {
+  test("should not refresh a valid token", async () => {
+    const fetch = mock(() => Promise.resolve(tokenResponse("new", "r2")));
+    const validToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: validToken, refresh_token: "r1" },
+      { fetch },
+    );
+
+    expect(await provider.getAccessToken()).toBe(validToken);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("should share one refresh between concurrent callers", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const fetch = mock(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return tokenResponse(freshToken, "r2");
+    });
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      { fetch },
+    );
+
+    const tokens = await Promise.all([
+      provider.getAccessToken(),
+      provider.getAccessToken(),
+      provider.getAccessToken(),
+    ]);
+
+    expect(tokens).toEqual([freshToken, freshToken, freshToken]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should share a failed refresh with every waiting caller", async () => {
+    const fetch = mock(() =>
+      Promise.resolve(new Response("invalid_grant", { status: 403 })),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      { fetch },
+    );
+
+    const results = await Promise.allSettled([
+      provider.getAccessToken(),
+      provider.getAccessToken(),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    for (const result of results) {
+      expect(result.status).toBe("rejected");
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(
+        YotoAuthenticationError,
+      );
+    }
+
+    // A later call starts a fresh attempt
+    await provider.getAccessToken().catch(() => {});
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RefreshableAuthProvider invalidate", () => {
+  test("should refresh a still-valid token once it is invalidated", async () => {
+    const validToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 7200);
+    const customFetch = mock(() =>
+      Promise.resolve(tokenResponse(freshToken, "r2")),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: validToken, refresh_token: "r1" },
+      { fetch: customFetch },
+    );
+
+    provider.invalidate(validToken);
+
+    expect(await provider.getAccessToken()).toBe(freshToken);
+    expect(await provider.getAccessToken()).toBe(freshToken);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should ignore tokens that have already been replaced", async () => {
+    const validToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const customFetch = mock(() =>
+      Promise.resolve(tokenResponse("unused", "r2")),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: validToken, refresh_token: "r1" },
+      { fetch: customFetch },
+    );
+
+    provider.invalidate("an_older_token");
+
+    expect(await provider.getAccessToken()).toBe(validToken);
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("RefreshableAuthProvider expiry", () => {
+  test("should refresh early once inside the expiry buffer", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: "opaque", refresh_token: "r1", expires_in: 0.2 },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        expiryBuffer: 150,
+      },
+    );
+
+    expect(await provider.getAccessToken()).toBe("opaque");
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(await provider.getAccessToken()).toBe(freshToken);
+  });
+
+  test("should cap the expiry buffer for short-lived tokens", async () => {
+    const customFetch = mock(() =>
+      Promise.resolve(tokenResponse("unused", "r2")),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: "opaque", refresh_token: "r1", expires_in: 60 },
+      { fetch: customFetch, expiryBuffer: 120000, backgroundRefresh: true },
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    for (let i = 0; i < 5; i++) {
+      expect(await provider.getAccessToken()).toBe("opaque");
+    }
+    provider.dispose();
+
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+
+  test("should fall back to expires_in for opaque access tokens", async () => {
+    const customFetch = mock(() =>
+      Promise.resolve(tokenResponse("unused", "r2")),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: "opaque", refresh_token: "r1", expires_in: 3600 },
+      { fetch: customFetch },
+    );
+
+    expect(await provider.getAccessToken()).toBe("opaque");
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+
+  test("should refresh ahead of expiry in the background", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const onTokensRefreshed = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: "opaque", refresh_token: "r1", expires_in: 1 },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        expiryBuffer: 950,
+        backgroundRefresh: true,
+        onTokensRefreshed,
+      },
+    );
+
+    // The timer waits at least a second, even though the token expires sooner
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    provider.dispose();
+
+    expect(onTokensRefreshed).toHaveBeenCalledTimes(1);
+    expect(provider.getTokens().access_token).toBe(freshToken);
+  });
+
+  test("should not refresh in the background once disposed", async () => {
+    const customFetch = mock(() =>
+      Promise.resolve(tokenResponse("unused", "r2")),
+    );
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: "opaque", refresh_token: "r1", expires_in: 1 },
+      { fetch: customFetch, expiryBuffer: 950, backgroundRefresh: true },
+    );
+
+    provider.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("RefreshableAuthProvider token store", () => {
+  test("should save refreshed tokens to the store", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const tokenStore = new MemoryTokenStore();
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        tokenStore,
+      },
+    );
+
+    await provider.getAccessToken();
+
+    expect(await tokenStore.load()).toMatchObject({
+      access_token: freshToken,
+      refresh_token: "r2",
+    });
+  });
+
+  test("should keep the refresh token when it is not rotated", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const tokenStore = new MemoryTokenStore();
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({ access_token: freshToken, expires_in: 3600 }),
+            ),
+          ),
+        tokenStore,
+      },
+    );
+
+    await provider.getAccessToken();
+
+    expect(provider.getTokens().refresh_token).toBe("r1");
+    expect(await tokenStore.load()).toMatchObject({
+      access_token: freshToken,
+      refresh_token: "r1",
+    });
+  });
+
+  test("should still return the refreshed token if saving fails", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const tokenStore = new MemoryTokenStore();
+    tokenStore.save = () => Promise.reject(new Error("disk full"));
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        tokenStore,
+      },
+    );
+
+    expect(await provider.getAccessToken()).toBe(freshToken);
+  });
+});
+
+describe("RefreshableAuthProvider lifecycle events", () => {
+  test("should expose a copy of the current tokens", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      { fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")) },
+    );
+
+    expect(provider.getTokens().refresh_token).toBe("r1");
+    provider.getTokens().refresh_token = "tampered";
+    await provider.getAccessToken();
+
+    expect(provider.getTokens()).toMatchObject({
+      access_token: freshToken,
+      refresh_token: "r2",
+    });
+  });
+
+  test("should call onTokensRefreshed after a refresh", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const onTokensRefreshed = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        onTokensRefreshed,
+      },
+    );
+
+    await provider.getAccessToken();
+
+    expect(onTokensRefreshed).toHaveBeenCalledTimes(1);
+    expect(onTokensRefreshed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        access_token: freshToken,
+        refresh_token: "r2",
+      }),
+    );
+  });
+
+  test("should report rejected refresh tokens as invalid", async () => {
+    const onRefreshFailed = mock(() => {});
+    const onTokensInvalid = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () =>
+          Promise.resolve(new Response("invalid_grant", { status: 400 })),
+        onRefreshFailed,
+        onTokensInvalid,
+      },
+    );
+
+    await expect(provider.getAccessToken()).rejects.toThrow(
+      YotoAuthenticationError,
+    );
+    expect(onRefreshFailed).toHaveBeenCalledTimes(1);
+    expect(onTokensInvalid).toHaveBeenCalledWith(
+      "refresh_rejected",
+      expect.any(YotoAuthenticationError),
+    );
+  });
+
+  test("should not report tokens as invalid after a network failure", async () => {
+    const onRefreshFailed = mock(() => {});
+    const onTokensInvalid = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () => Promise.reject(new Error("offline")),
+        onRefreshFailed,
+        onTokensInvalid,
+      },
+    );
+
+    await expect(provider.getAccessToken()).rejects.toThrow(
+      YotoConnectionError,
+    );
+    expect(onRefreshFailed).toHaveBeenCalledTimes(1);
+    expect(onTokensInvalid).not.toHaveBeenCalled();
+  });
+
+  test("should not fail the refresh when a callback throws", async () => {
+    const freshToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      {
+        fetch: () => Promise.resolve(tokenResponse(freshToken, "r2")),
+        onTokensRefreshed: () => {
+          throw new Error("callback failed");
+        },
+      },
+    );
+
+    expect(await provider.getAccessToken()).toBe(freshToken);
+  });
+});
+
+describe("RefreshableAuthProvider logout", () => {
+  const validToken = () => createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+
+  test("should revoke, clear the store and reject later calls", async () => {
+    const customFetch = mock(
+      (_input: string | URL | Request, _init?: RequestInit) =>
+        Promise.resolve(new Response(null, { status: 200 })),
+    );
+    const tokenStore = new MemoryTokenStore({
+      access_token: "stored",
+      refresh_token: "r1",
+    });
+    const onTokensInvalid = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: validToken(), refresh_token: "r1" },
+      { fetch: customFetch, tokenStore, onTokensInvalid },
+    );
+
+    await provider.logout();
+
+    const [url, init] = customFetch.mock.calls[0] ?? [];
+    expect(url).toBe(`${authBaseUrl}/oauth/revoke`);
+    expect((init?.body as URLSearchParams).get("token")).toBe("r1");
+    expect(await tokenStore.load()).toBeUndefined();
+    expect(onTokensInvalid).toHaveBeenCalledWith("revoked");
+    await expect(provider.getAccessToken()).rejects.toThrow("Logged out");
+    expect(() => provider.getTokens()).toThrow("Logged out");
+  });
+
+  test("should revoke the rotated refresh token after an in-flight refresh", async () => {
+    let finishRefresh: (response: Response) => void = () => {};
+    const customFetch = mock(
+      (input: string | URL | Request, _init?: RequestInit) =>
+        String(input).endsWith("/oauth/token")
+          ? new Promise<Response>((resolve) => {
+              finishRefresh = resolve;
+            })
+          : Promise.resolve(new Response(null, { status: 200 })),
+    );
+    const onTokensRefreshed = mock(() => {});
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: createMockJWT(0), refresh_token: "r1" },
+      { fetch: customFetch, onTokensRefreshed },
+    );
+
+    const pending = provider.getAccessToken();
+    const loggedOut = provider.logout();
+    finishRefresh(tokenResponse(validToken(), "r2"));
+
+    await expect(pending).rejects.toThrow("Logged out");
+    await loggedOut;
+    const revokeBody = customFetch.mock.calls[1]?.[1]?.body as URLSearchParams;
+    expect(revokeBody.get("token")).toBe("r2");
+    expect(onTokensRefreshed).not.toHaveBeenCalled();
+  });
+
+  test("should sign out locally even if revocation fails", async () => {
+    const tokenStore = new MemoryTokenStore({
+      access_token: "stored",
+      refresh_token: "r1",
+    });
+    const provider = new RefreshableAuthProvider(
+      authBaseUrl,
+      clientId,
+      30000,
+      { access_token: validToken(), refresh_token: "r1" },
+      { fetch: () => Promise.reject(new Error("offline")), tokenStore },
+    );
+
+    await expect(provider.logout()).rejects.toThrow(YotoConnectionError);
+    expect(await tokenStore.load()).toBeUndefined();
+    await expect(provider.getAccessToken()).rejects.toThrow(
+      YotoAuthenticationError,
+    );
+  });
+});
+
+// Helper function to create mock JWT tokens
+function createMockJWT(exp: number): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=/g, "");
+
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode({ exp })}.signature`;
+}
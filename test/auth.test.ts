@@ -2,14 +2,16 @@ import { describe, test, expect, beforeEach, mock } from "bun:test";
 import {
   YotoDeviceAuth,
   YotoBrowserAuth,
-  isTokenExpired,
+  getTokenExpiry,
   refreshAccessToken,
 } from "../src/auth.ts";
 import {
   YotoAuthenticationError,
   YotoConnectionError,
   YotoAPIError,
+  YotoOAuthError,
 } from "../src/error.ts";
+import { MemoryTokenStore } from "../src/token-store.ts";
 
 // Mock global fetch
 const originalFetch = globalThis.fetch;
@@ -71,6 +73,185 @@ describe("YotoDeviceAuth", () => {
     });
   });
 
+  describe("custom fetch", () => {
+    test("should use the configured fetch instead of the global one", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: async () => ({
+            device_code: "device_456",
+            user_code: "WXYZ-1234",
+            verification_uri: "https://example.com/verify",
+            verification_uri_complete: "https://example.com/verify?code=WXYZ",
+          }),
+        } as Response),
+      );
+      globalThis.fetch = mock(() =>
+        Promise.reject(new Error("global fetch should not be called")),
+      ) as unknown as typeof fetch;
+
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+      const result = await auth.initiateDeviceLogin();
+
+      expect(result.device_code).toBe("device_456");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test("should pass custom fetch to refreshAccessToken", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: async () => ({
+            access_token: "custom_access",
+            refresh_token: "custom_refresh",
+          }),
+        } as Response),
+      );
+
+      const result = await refreshAccessToken(
+        "https://login.yotoplay.com",
+        clientId,
+        "old_refresh_123",
+        30000,
+        { fetch: customFetch },
+      );
+
+      expect(result.access_token).toBe("custom_access");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("scopes and extra params", () => {
+    function formFetch(body: Record<string, unknown>) {
+      return mock((_input: string | URL | Request, _init?: RequestInit) =>
+        Promise.resolve(new Response(JSON.stringify(body))),
+      );
+    }
+
+    test("should send configured scopes and authorize params", async () => {
+      const customFetch = formFetch({ device_code: "device_456" });
+      const auth = new YotoDeviceAuth(clientId, {
+        fetch: customFetch,
+        scopes: ["openid", "offline_access"],
+        authorizeParams: { connection: "yoto", client_id: "ignored" },
+      });
+
+      await auth.initiateDeviceLogin();
+
+      const body = customFetch.mock.calls[0]?.[1]?.body as URLSearchParams;
+      expect(body.get("scope")).toBe("openid offline_access");
+      expect(body.get("connection")).toBe("yoto");
+      expect(body.get("client_id")).toBe(clientId);
+    });
+
+    test("should send token params when polling and refreshing", async () => {
+      const customFetch = formFetch({
+        access_token: createMockJWT(0),
+        refresh_token: "refresh_123",
+      });
+      const auth = new YotoDeviceAuth(clientId, {
+        fetch: customFetch,
+        tokenParams: { organization: "org_123" },
+      });
+
+      const tokens = await auth.pollForToken("device_123", 0);
+      await auth
+        .createProvider(tokens)
+        .getAccessToken()
+        .catch(() => {});
+
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      for (const [, init] of customFetch.mock.calls) {
+        const body = init?.body as URLSearchParams;
+        expect(body.get("organization")).toBe("org_123");
+      }
+      const refreshBody = customFetch.mock.calls[1]?.[1]
+        ?.body as URLSearchParams;
+      expect(refreshBody.get("grant_type")).toBe("refresh_token");
+    });
+  });
+
+  describe("revoke and logout", () => {
+    test("should post the refresh token to the revocation endpoint", async () => {
+      const customFetch = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(new Response(null, { status: 200 })),
+      );
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+
+      await auth.revoke("refresh_123");
+
+      const [url, init] = customFetch.mock.calls[0] ?? [];
+      expect(url).toBe("https://login.yotoplay.com/oauth/revoke");
+      const body = init?.body as URLSearchParams;
+      expect(body.get("token")).toBe("refresh_123");
+      expect(body.get("client_id")).toBe(clientId);
+    });
+
+    test("should throw YotoAuthenticationError when revocation fails", async () => {
+      const auth = new YotoDeviceAuth(clientId, {
+        fetch: () => Promise.resolve(new Response("nope", { status: 400 })),
+      });
+
+      await expect(auth.revoke("refresh_123")).rejects.toThrow(
+        YotoAuthenticationError,
+      );
+    });
+
+    test("should revoke stored tokens and clear the store", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve(new Response(null, { status: 200 })),
+      );
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+      const store = new MemoryTokenStore({
+        access_token: "access_123",
+        refresh_token: "refresh_123",
+      });
+
+      await auth.logout(store);
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(await store.load()).toBeUndefined();
+    });
+  });
+
+  describe("restoreProvider", () => {
+    test("should create a provider from stored tokens", async () => {
+      const validToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
+      const store = new MemoryTokenStore({
+        access_token: validToken,
+        refresh_token: "refresh_123",
+      });
+
+      const provider = await deviceAuth.restoreProvider(store);
+
+      expect(await provider?.getAccessToken()).toBe(validToken);
+    });
+
+    test("should return undefined when the store is empty", async () => {
+      const provider = await deviceAuth.restoreProvider(new MemoryTokenStore());
+      expect(provider).toBeUndefined();
+    });
+  });
+
+  function pollResponses(...errors: string[]) {
+    return mock((_input: string | URL | Request, _init?: RequestInit) => {
+      const error = errors.shift();
+      return Promise.resolve(
+        error
+          ? new Response(JSON.stringify({ error }), { status: 403 })
+          : new Response(
+              JSON.stringify({
+                access_token: createMockJWT(
+                  Math.floor(Date.now() / 1000) + 3600,
+                ),
+                refresh_token: "refresh_123",
+              }),
+            ),
+      );
+    });
+  }
+
   describe("pollForToken", () => {
     test("should return tokens on successful authorization", async () => {
       const mockTokenResponse = {
@@ -123,6 +304,132 @@ describe("YotoDeviceAuth", () => {
         YotoAPIError,
       );
     });
+
+    test("should report pending and slow_down states", async () => {
+      const auth = new YotoDeviceAuth(clientId, {
+        fetch: pollResponses("authorization_pending", "slow_down"),
+      });
+      const onPending = mock(() => {});
+      const onSlowDown = mock(() => {});
+      // slow_down adds 5s to the interval, so keep the deadline short
+      const result = await auth
+        .pollForToken("device_123", 0, {
+          expiresIn: 0.05,
+          onPending,
+          onSlowDown,
+        })
+        .catch((error) => error);
+
+      expect(onPending).toHaveBeenCalledWith(
+        expect.objectContaining({ intervalMs: 0 }),
+      );
+      expect(onSlowDown).toHaveBeenCalledWith(
+        expect.objectContaining({ intervalMs: 5000 }),
+      );
+      expect(result).toBeInstanceOf(YotoAuthenticationError);
+      expect(result.code).toBe("expired_token");
+    });
+
+    test("should stop polling when the signal aborts", async () => {
+      const auth = new YotoDeviceAuth(clientId, {
+        fetch: pollResponses(
+          ...Array.from({ length: 100 }, () => "authorization_pending"),
+        ),
+      });
+      const controller = new AbortController();
+
+      const pending = auth.pollForToken("device_123", 0.01, {
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(new Error("cancelled")), 30);
+
+      await expect(pending).rejects.toThrow("cancelled");
+    });
+  });
+
+  describe("login", () => {
+    test("should run the whole device flow and save the tokens", async () => {
+      const poll = pollResponses("authorization_pending");
+      const customFetch = mock(
+        (input: string | URL | Request, init?: RequestInit) =>
+          String(input).endsWith("/oauth/device/code")
+            ? Promise.resolve(
+                new Response(
+                  JSON.stringify({
+                    device_code: "device_123",
+                    user_code: "ABCD-1234",
+                    verification_uri: "https://login.yotoplay.com/activate",
+                    verification_uri_complete:
+                      "https://login.yotoplay.com/activate?user_code=ABCD-1234",
+                    interval: 0.01,
+                    expires_in: 300,
+                  }),
+                ),
+              )
+            : poll(input, init),
+      );
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+      const tokenStore = new MemoryTokenStore();
+      const onCode = mock(() => {});
+
+      const provider = await auth.login({
+        onCode,
+        providerOptions: { tokenStore },
+      });
+
+      expect(onCode).toHaveBeenCalledWith(
+        expect.objectContaining({ user_code: "ABCD-1234" }),
+      );
+      expect((await tokenStore.load())?.refresh_token).toBe("refresh_123");
+      expect(provider.getTokens().refresh_token).toBe("refresh_123");
+    });
+
+    test("should abort before device login initiation completes", async () => {
+      const customFetch = mock(
+        (_input: string | URL | Request, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(init.signal?.reason),
+            );
+          }),
+      );
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+      const controller = new AbortController();
+      const onCode = mock(() => {});
+
+      const login = auth.login({ onCode, signal: controller.signal });
+      controller.abort(new Error("cancelled"));
+
+      await expect(login).rejects.toThrow("cancelled");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(onCode).not.toHaveBeenCalled();
+    });
+
+    test("should stop after onCode when the signal is aborted", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              device_code: "device_123",
+              user_code: "ABCD-1234",
+              verification_uri: "https://login.yotoplay.com/activate",
+              interval: 0.01,
+              expires_in: 300,
+            }),
+          ),
+        ),
+      );
+      const auth = new YotoDeviceAuth(clientId, { fetch: customFetch });
+      const controller = new AbortController();
+
+      await expect(
+        auth.login({
+          onCode: () => controller.abort(new Error("cancelled")),
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow("cancelled");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("refreshAccessToken utility", () => {
@@ -150,6 +457,26 @@ describe("YotoDeviceAuth", () => {
       expect(result.access_token).toBe("new_access_123");
     });
 
+    test("should keep the refresh token when the response omits it", async () => {
+      globalThis.fetch = mock(() =>
+        Promise.resolve({
+          ok: true,
+          json: async () => ({
+            access_token: "new_access_123",
+            expires_in: 3600,
+          }),
+        } as Response),
+      ) as unknown as typeof fetch;
+
+      const result = await refreshAccessToken(
+        "https://login.yotoplay.com",
+        clientId,
+        "old_refresh_123",
+        30000,
+      );
+      expect(result.refresh_token).toBe("old_refresh_123");
+    });
+
     test("should throw YotoAuthenticationError on failed refresh", async () => {
       globalThis.fetch = mock(() =>
         Promise.resolve({
@@ -169,31 +496,23 @@ describe("YotoDeviceAuth", () => {
     });
   });
 
-  describe("isTokenExpired utility", () => {
-    test("should return true for expired token", () => {
-      const expiredToken = createMockJWT(Math.floor(Date.now() / 1000) - 3600);
-      expect(isTokenExpired(expiredToken)).toBe(true);
+  describe("getTokenExpiry utility", () => {
+    test("should return the exp claim in milliseconds", () => {
+      const exp = Math.floor(Date.now() / 1000) + 3600;
+      expect(getTokenExpiry(createMockJWT(exp))).toBe(exp * 1000);
     });
 
-    test("should return false for valid token", () => {
-      const validToken = createMockJWT(Math.floor(Date.now() / 1000) + 3600);
-      expect(isTokenExpired(validToken)).toBe(false);
+    test("should return past expiry times as they are", () => {
+      const exp = Math.floor(Date.now() / 1000) - 3600;
+      expect(getTokenExpiry(createMockJWT(exp))).toBe(exp * 1000);
     });
 
-    test("should return true for token expiring within 30s", () => {
-      const almostExpiredToken = createMockJWT(
-        Math.floor(Date.now() / 1000) + 20,
-      );
-      expect(isTokenExpired(almostExpiredToken)).toBe(true);
+    test("should return undefined for malformed token", () => {
+      expect(getTokenExpiry("invalid.token")).toBeUndefined();
     });
 
-    test("should return true for malformed token", () => {
-      expect(isTokenExpired("invalid.token")).toBe(true);
-    });
-
-    test("should return true for token without exp claim", () => {
-      const noExpToken = createMockJWT(null);
-      expect(isTokenExpired(noExpToken)).toBe(true);
+    test("should return undefined for token without exp claim", () => {
+      expect(getTokenExpiry(createMockJWT(null))).toBeUndefined();
     });
   });
 });
@@ -226,6 +545,119 @@ describe("YotoBrowserAuth", () => {
 
       expect(result1.codeVerifier).not.toBe(result2.codeVerifier);
     });
+
+    test("should return a random state and nonce", async () => {
+      const result = await browserAuth.generateAuthUrl();
+      const params = new URL(result.url).searchParams;
+
+      expect(result.state.length).toBeGreaterThan(0);
+      expect(result.nonce.length).toBeGreaterThan(0);
+      expect(params.get("state")).toBe(result.state);
+      expect(params.get("nonce")).toBe(result.nonce);
+    });
+
+    test("should include the state when given", async () => {
+      const result = await browserAuth.generateAuthUrl({ state: "state_123" });
+
+      expect(result.state).toBe("state_123");
+      expect(new URL(result.url).searchParams.get("state")).toBe("state_123");
+    });
+  });
+
+  describe("authorize params", () => {
+    test("should apply configured and per-login authorize params", async () => {
+      const auth = new YotoBrowserAuth(clientId, redirectUri, {
+        scopes: ["openid"],
+        authorizeParams: { prompt: "login", connection: "yoto" },
+      });
+
+      const { url } = await auth.generateAuthUrl({
+        authorizeParams: { login_hint: "parent@example.com", prompt: "none" },
+      });
+      const params = new URL(url).searchParams;
+
+      expect(params.get("scope")).toBe("openid");
+      expect(params.get("connection")).toBe("yoto");
+      expect(params.get("login_hint")).toBe("parent@example.com");
+      expect(params.get("prompt")).toBe("none");
+    });
+  });
+
+  describe("handleCallback", () => {
+    const expected = {
+      state: "state_123",
+      codeVerifier: "verifier_123",
+      nonce: "nonce_123",
+    };
+
+    function mockTokenEndpoint(idToken?: string) {
+      const fetchMock = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({
+                access_token: "access_123",
+                refresh_token: "refresh_123",
+                id_token: idToken,
+              }),
+            ),
+          ),
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      return fetchMock;
+    }
+
+    test("should exchange the code when the state matches", async () => {
+      const fetchMock = mockTokenEndpoint(createIdToken("nonce_123"));
+
+      const tokens = await browserAuth.handleCallback(
+        `${redirectUri}?code=code_123&state=state_123`,
+        expected,
+      );
+
+      expect(tokens.access_token).toBe("access_123");
+      const body = fetchMock.mock.calls[0]?.[1]?.body as URLSearchParams;
+      expect(body.get("code")).toBe("code_123");
+      expect(body.get("code_verifier")).toBe("verifier_123");
+    });
+
+    test("should reject a mismatched state without exchanging", async () => {
+      const fetchMock = mockTokenEndpoint();
+
+      await expect(
+        browserAuth.handleCallback(
+          `${redirectUri}?code=code_123&state=forged`,
+          expected,
+        ),
+      ).rejects.toThrow(YotoAuthenticationError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test("should surface OAuth errors as YotoOAuthError", async () => {
+      mockTokenEndpoint();
+
+      const error = await browserAuth
+        .handleCallback(
+          `${redirectUri}?error=access_denied&error_description=User+cancelled&state=state_123`,
+          expected,
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(YotoOAuthError);
+      expect(error.error).toBe("access_denied");
+      expect(error.errorDescription).toBe("User cancelled");
+    });
+
+    test("should reject an ID token with the wrong nonce", async () => {
+      mockTokenEndpoint(createIdToken("replayed_nonce"));
+
+      await expect(
+        browserAuth.handleCallback(
+          `${redirectUri}?code=code_123&state=state_123`,
+          expected,
+        ),
+      ).rejects.toThrow("nonce does not match");
+    });
   });
 
   describe("exchangeCodeForTokens", () => {
@@ -264,7 +696,6 @@ describe("YotoBrowserAuth", () => {
       ).rejects.toThrow(YotoAuthenticationError);
     });
   });
-
 });
 
 // Helper function to create mock JWT tokens
@@ -283,3 +714,12 @@ function createMockJWT(exp: number | null): string {
 
   return `${encodedHeader}.${encodedPayload}.signature`;
 }
+
+function createIdToken(nonce: string): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=/g, "");
+  return `${encode({ alg: "RS256" })}.${encode({ nonce })}.signature`;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { ContentBuilder } from "../src/content-builder.ts";
+import type { TranscodeResponse } from "../src/types";
+
+function transcode(
+  sha: string,
+  info: TranscodeResponse["transcode"]["transcodedInfo"] = {},
+): TranscodeResponse {
+  return { transcode: { transcodedSha256: sha, transcodedInfo: info } };
+}
+
+describe("ContentBuilder", () => {
+  test("should number chapters and tracks automatically", () => {
+    const request = new ContentBuilder("Bedtime Stories")
+      .addChapter("Chapter One")
+      .addAudioTrack(transcode("sha_1"), { title: "Part 1" })
+      .addAudioTrack(transcode("sha_2"), { title: "Part 2" })
+      .addChapter("Chapter Two", { icon: "yoto:#icon_hash" })
+      .addAudioTrack(transcode("sha_3"), { title: "Part 3" })
+      .build();
+
+    const [first, second] = request.content.chapters;
+    expect(request.title).toBe("Bedtime Stories");
+    expect(first).toMatchObject({
+      key: "01",
+      title: "Chapter One",
+      overlayLabel: "1",
+      display: { icon16x16: null },
+    });
+    expect(first?.tracks.map((track) => track.key)).toEqual(["01", "02"]);
+    expect(first?.tracks.map((track) => track.overlayLabel)).toEqual([
+      "1",
+      "1",
+    ]);
+    expect(second).toMatchObject({
+      key: "02",
+      overlayLabel: "2",
+      display: { icon16x16: "yoto:#icon_hash" },
+    });
+    expect(second?.tracks[0]).toMatchObject({
+      key: "01",
+      title: "Part 3",
+      trackUrl: "yoto:#sha_3",
+      overlayLabel: "2",
+      type: "audio",
+    });
+  });
+
+  test("should fill track details from the transcode result", () => {
+    const request = new ContentBuilder("Songs")
+      .addAudioChapter(
+        transcode("sha_1", {
+          duration: 180,
+          fileSize: 2048000,
+          channels: 2,
+          format: "aac",
+          metadata: { title: "Lullaby" },
+        }),
+      )
+      .build();
+
+    const chapter = request.content.chapters[0];
+    expect(chapter?.title).toBe("Lullaby");
+    expect(chapter?.tracks[0]).toEqual({
+      key: "01",
+      title: "Lullaby",
+      trackUrl: "yoto:#sha_1",
+      overlayLabel: "1",
+      format: "aac",
+      type: "audio",
+      display: { icon16x16: null },
+      duration: 180,
+      fileSize: 2048000,
+      channels: "stereo",
+    });
+  });
+
+  test("should add stream tracks", () => {
+    const request = new ContentBuilder("Radio")
+      .addStreamChapter("https://example.com/stream.mp3", {
+        title: "Live",
+      })
+      .build();
+
+    const chapter = request.content.chapters[0];
+    expect(chapter?.hasStreams).toBe(true);
+    expect(chapter?.tracks[0]).toMatchObject({
+      trackUrl: "https://example.com/stream.mp3",
+      type: "stream",
+      format: "mp3",
+    });
+    expect(request.metadata?.media?.hasStreams).toBe(true);
+  });
+
+  test("should reject unfinished transcodes", () => {
+    expect(() =>
+      new ContentBuilder("Songs").addAudioTrack({ transcode: {} }),
+    ).toThrow("transcodedSha256");
+  });
+
+  test("should set playback options and compute media totals", () => {
+    const request = new ContentBuilder("Shuffle")
+      .playbackType("random")
+      .config({ resumeTimeout: 60 })
+      .metadata({ description: "Mixed bag" })
+      .addAudioChapter(transcode("sha_1", { duration: 60, fileSize: 1000 }))
+      .addAudioChapter(transcode("sha_2", { duration: 90, fileSize: 2000 }))
+      .build();
+
+    expect(request.content.playbackType).toBe("random");
+    expect(request.content.config).toEqual({ resumeTimeout: 60 });
+    expect(request.content.chapters[1]?.duration).toBe(90);
+    expect(request.metadata).toEqual({
+      description: "Mixed bag",
+      media: { duration: 150, fileSize: 3000 },
+    });
+  });
+});
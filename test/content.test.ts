@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
 import { ContentResource } from "../src/resources/content.ts";
+import { YotoAPIError, YotoValidationError } from "../src/error.ts";
 import type { HttpClient } from "../src/http-client.ts";
+import type { RequestOptions } from "../src/types";
 
 describe("ContentResource", () => {
   let content: ContentResource;
@@ -28,6 +30,8 @@ describe("ContentResource", () => {
 
     expect(mockClient.request).toHaveBeenCalledWith("/content/abc123", {
       method: "GET",
+      operation: "content.retrieve",
+      route: "/content/{cardId}",
     });
     expect(result).toEqual(mockContent);
   });
@@ -82,6 +86,8 @@ describe("ContentResource", () => {
 
     expect(mockClient.request).toHaveBeenCalledWith("/content/abc123", {
       method: "DELETE",
+      operation: "content.remove",
+      route: "/content/{cardId}",
     });
   });
 
@@ -113,5 +119,146 @@ describe("ContentResource", () => {
     expect(call?.[1]?.method).toBe("GET");
     expect(result).toEqual(mockList.cards);
   });
-});
 
+  describe("validation", () => {
+    const invalid = {
+      title: "Broken",
+      content: {
+        chapters: [
+          { key: "01", tracks: [] },
+          { key: "01", tracks: [] },
+        ],
+      },
+    };
+
+    test("should throw before sending invalid content", async () => {
+      const validating = new ContentResource(mockClient, { validate: true });
+
+      const error = await validating.create(invalid).catch((e) => e);
+
+      expect(error).toBeInstanceOf(YotoValidationError);
+      expect(error.issues[0].path).toBe("$.chapters[1].key");
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    test("should validate content on update", async () => {
+      const validating = new ContentResource(mockClient, { validate: true });
+
+      await expect(
+        validating.update("abc123", { content: invalid.content }),
+      ).rejects.toThrow(YotoValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    test("should not validate unless enabled", async () => {
+      await content.create(invalid);
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("createFromAudio", () => {
+    let failUploads: boolean;
+
+    beforeEach(() => {
+      let uploads = 0;
+      failUploads = false;
+      mockClient.request = mock((path: string, options: RequestOptions) => {
+        if (path.startsWith("https://uploads.example.com/")) {
+          return failUploads
+            ? Promise.reject(new YotoAPIError("Forbidden", 403))
+            : Promise.resolve("");
+        }
+        if (path === "/media/transcode/audio/uploadUrl") {
+          uploads++;
+          return Promise.resolve({
+            upload: {
+              uploadUrl: `https://uploads.example.com/${uploads}`,
+              uploadId: `upload-${uploads}`,
+            },
+          });
+        }
+        if (path.startsWith("/media/upload/")) {
+          const uploadId = path.split("/")[3];
+          return Promise.resolve({
+            transcode: {
+              transcodedSha256: `sha-${uploadId}`,
+              transcodedInfo: {
+                duration: 60,
+                fileSize: 1000,
+                channels: 2,
+                format: "mp3",
+                metadata: uploadId === "upload-1" ? { title: "Intro" } : {},
+              },
+            },
+          });
+        }
+        return Promise.resolve({
+          card: { cardId: "card-1", ...(options.body as object) },
+        });
+      }) as unknown as HttpClient["request"];
+      content = new ContentResource(mockClient);
+    });
+
+    test("should upload each file and create one chapter per file", async () => {
+      const onProgress = mock(() => {});
+
+      const card = await content.createFromAudio(
+        [
+          Buffer.from("first"),
+          new File(["second"], "The Gruffalo.m4a"),
+          { file: Buffer.from("third"), title: "Outro" },
+        ],
+        { title: "Story Time", concurrency: 1, onProgress },
+      );
+
+      expect(card.cardId).toBe("card-1");
+      expect(mockClient.request).toHaveBeenCalledWith(
+        "https://uploads.example.com/2",
+        expect.objectContaining({
+          method: "PUT",
+          authenticate: false,
+          headers: { "Content-Type": "audio/mp4" },
+        }),
+      );
+
+      const chapters = card.content.chapters;
+      expect(chapters.map((chapter) => chapter.title)).toEqual([
+        "Intro",
+        "The Gruffalo",
+        "Outro",
+      ]);
+      expect(chapters[2]?.tracks[0]).toMatchObject({
+        trackUrl: "yoto:#sha-upload-3",
+        duration: 60,
+        channels: "stereo",
+      });
+      expect(card.metadata.media).toEqual({ duration: 180, fileSize: 3000 });
+      expect(onProgress).toHaveBeenCalledWith({
+        index: 2,
+        stage: "transcoded",
+        completed: 3,
+        total: 3,
+      });
+    });
+
+    test("should reject an empty file list before any request", async () => {
+      await expect(
+        content.createFromAudio([], { title: "Empty" }),
+      ).rejects.toThrow(YotoValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    test("should not create a card if an upload fails", async () => {
+      failUploads = true;
+
+      await expect(
+        content.createFromAudio([Buffer.from("first")], { title: "Broken" }),
+      ).rejects.toThrow(YotoAPIError);
+      expect(mockClient.request).not.toHaveBeenCalledWith(
+        "/content",
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -51,6 +51,23 @@ describe("DevicesResource", () => {
     expect(result).toEqual(mockStatus);
   });
 
+  test("getStatus should forward per-request options", async () => {
+    const controller = new AbortController();
+
+    await devices.getStatus("dev1", {
+      signal: controller.signal,
+      timeout: 5000,
+    });
+
+    expect(mockClient.request).toHaveBeenCalledWith("/device-v2/dev1/status", {
+      method: "GET",
+      operation: "devices.getStatus",
+      route: "/device-v2/{deviceId}/status",
+      signal: controller.signal,
+      timeout: 5000,
+    });
+  });
+
   test("getConfig should fetch device config", async () => {
     const mockConfig = {
       volume: 50,
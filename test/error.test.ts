@@ -4,7 +4,10 @@ import {
   YotoAuthenticationError,
   YotoAPIError,
   YotoConnectionError,
+  YotoOAuthError,
   YotoRateLimitError,
+  YotoTranscodeTimeoutError,
+  YotoValidationError,
 } from "../src/error.ts";
 
 describe("Error Classes", () => {
@@ -46,10 +49,52 @@ describe("Error Classes", () => {
     expect(error.code).toBe("rate_limit_exceeded");
   });
 
+  test("YotoRateLimitError should include rate limit state", () => {
+    const resetAt = new Date();
+    const error = new YotoRateLimitError(
+      "Rate limit exceeded",
+      60,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { limit: 100, remaining: 0, resetAt },
+    );
+    expect(error.rateLimit).toEqual({ limit: 100, remaining: 0, resetAt });
+  });
+
+  test("YotoOAuthError should expose the OAuth error fields", () => {
+    const error = new YotoOAuthError("access_denied", "User cancelled");
+    expect(error).toBeInstanceOf(YotoAuthenticationError);
+    expect(error.error).toBe("access_denied");
+    expect(error.errorDescription).toBe("User cancelled");
+    expect(error.code).toBe("access_denied");
+    expect(error.message).toContain("User cancelled");
+  });
+
+  test("YotoValidationError should carry the issues", () => {
+    const issues = [
+      { path: "$.chapters[1].key", code: "duplicate_key", message: "dup" },
+    ];
+    const error = new YotoValidationError("Invalid content", issues);
+    expect(error.statusCode).toBeUndefined();
+    expect(error.type).toBe("validation_error");
+    expect(error.code).toBe("duplicate_key");
+    expect(error.issues).toEqual(issues);
+  });
+
+  test("YotoTranscodeTimeoutError should carry the upload and timeout", () => {
+    const error = new YotoTranscodeTimeoutError("upload-123", 60000);
+    expect(error).toBeInstanceOf(YotoError);
+    expect(error.type).toBe("timeout_error");
+    expect(error.code).toBe("transcode_timeout");
+    expect(error.uploadId).toBe("upload-123");
+    expect(error.timeout).toBe(60000);
+  });
+
   test("YotoConnectionError should not have status code", () => {
     const error = new YotoConnectionError("Connection failed");
     expect(error.statusCode).toBeUndefined();
     expect(error.type).toBe("connection_error");
   });
 });
-
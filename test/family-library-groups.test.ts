@@ -99,6 +99,8 @@ describe("FamilyLibraryGroupsResource", () => {
 
     expect(mockClient.request).toHaveBeenCalledWith("/card/family/library/groups/g1", {
       method: "GET",
+      operation: "familyLibraryGroups.retrieve",
+      route: "/card/family/library/groups/{groupId}",
     });
     expect(result).toEqual(mockGroup);
   });
@@ -139,6 +141,8 @@ describe("FamilyLibraryGroupsResource", () => {
 
     expect(mockClient.request).toHaveBeenCalledWith("/card/family/library/groups/g1", {
       method: "DELETE",
+      operation: "familyLibraryGroups.remove",
+      route: "/card/family/library/groups/{groupId}",
     });
   });
 });
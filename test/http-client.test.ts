@@ -0,0 +1,902 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  type AuthProvider,
+  StaticTokenProvider,
+} from "../src/auth-provider.ts";
+import {
+  YotoAPIError,
+  YotoAuthenticationError,
+  YotoConnectionError,
+  YotoRateLimitError,
+} from "../src/error.ts";
+import { HttpClient } from "../src/http-client.ts";
+import type {
+  Middleware,
+  MiddlewareRequest,
+  Span,
+  SpanAttributes,
+  Tracer,
+} from "../src/types";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function mockFetch(body: unknown = {}) {
+  return mock((_input: string | URL | Request, _init?: RequestInit) =>
+    Promise.resolve(jsonResponse(body)),
+  );
+}
+
+describe("HttpClient", () => {
+  const auth = new StaticTokenProvider("test_token");
+
+  describe("fetch", () => {
+    test("should send requests through the configured fetch", async () => {
+      const customFetch = mockFetch({ ok: 1 });
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      const result = await client.request<{ ok: number }>("/content/mine");
+
+      expect(result.ok).toBe(1);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = customFetch.mock.calls[0] ?? [];
+      expect(url).toBe("https://api.yotoplay.com/content/mine");
+      expect(init?.method).toBe("GET");
+    });
+  });
+
+  describe("per-request options", () => {
+    // Settles only by rejecting once the request signal aborts
+    const hangingFetch = (_input: unknown, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const signal = init?.signal;
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal?.addEventListener("abort", () => reject(signal.reason));
+      });
+
+    test("should cancel a request when the caller signal aborts", async () => {
+      const client = new HttpClient(auth, { fetch: hangingFetch });
+      const controller = new AbortController();
+
+      const pending = client.request("/device-v2/dev1/status", {
+        signal: controller.signal,
+      });
+      controller.abort(new Error("cancelled by caller"));
+
+      await expect(pending).rejects.toThrow("cancelled by caller");
+    });
+
+    test("should not start a request when the signal is already aborted", async () => {
+      const customFetch = mockFetch();
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      await expect(
+        client.request("/content/mine", { signal: AbortSignal.abort() }),
+      ).rejects.toThrow();
+      expect(customFetch).not.toHaveBeenCalled();
+    });
+
+    test("should apply per-call timeout and maxRetries", async () => {
+      const customFetch = mock(hangingFetch);
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      await expect(
+        client.request("/content/mine", { timeout: 10, maxRetries: 0 }),
+      ).rejects.toThrow();
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test("should report a timeout as a connection error", async () => {
+      const customFetch = mock(hangingFetch);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: { baseDelay: 1, jitter: 0 },
+      });
+
+      const pending = client.request("/content/mine", {
+        timeout: 10,
+        maxRetries: 1,
+      });
+
+      await expect(pending).rejects.toBeInstanceOf(YotoConnectionError);
+      await expect(pending).rejects.toThrow("Request timed out after 10ms");
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("should merge per-call headers", async () => {
+      const customFetch = mockFetch();
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      await client.request("/content/mine", {
+        headers: { "X-Request-Source": "test" },
+      });
+
+      const headers = customFetch.mock.calls[0]?.[1]?.headers as Record<
+        string,
+        string
+      >;
+      expect(headers["X-Request-Source"]).toBe("test");
+      expect(headers.Authorization).toBe("Bearer test_token");
+    });
+  });
+
+  describe("retry policy", () => {
+    const fastRetries = { baseDelay: 0, jitter: 0 };
+
+    function failingFetch(statuses: number[]) {
+      let call = 0;
+      return mock((_input: string | URL | Request, _init?: RequestInit) => {
+        const status = statuses[call++];
+        return Promise.resolve(
+          status
+            ? jsonResponse({ error: { message: "failed" } }, status)
+            : jsonResponse({ ok: true }),
+        );
+      });
+    }
+
+    test("should retry GET requests on retryable status codes", async () => {
+      const customFetch = failingFetch([503, 502]);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: fastRetries,
+      });
+
+      const result = await client.request<{ ok: boolean }>("/content/mine");
+
+      expect(result.ok).toBe(true);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test("should not retry non-retryable status codes", async () => {
+      const customFetch = failingFetch([400]);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: fastRetries,
+      });
+
+      await expect(client.request("/content/mine")).rejects.toThrow(
+        YotoAPIError,
+      );
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not retry POST requests by default", async () => {
+      const customFetch = failingFetch([500]);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: fastRetries,
+      });
+
+      await expect(
+        client.request("/content", { method: "POST", body: {} }),
+      ).rejects.toThrow(YotoAPIError);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test("should retry POST requests marked idempotent", async () => {
+      const customFetch = failingFetch([500]);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: fastRetries,
+      });
+
+      await client.request("/content", {
+        method: "POST",
+        body: {},
+        idempotent: true,
+      });
+
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("should retry rate limited POST requests", async () => {
+      const customFetch = failingFetch([429]);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: fastRetries,
+      });
+
+      await client.request("/content", { method: "POST", body: {} });
+
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("should let shouldRetry override the default rules", async () => {
+      const customFetch = failingFetch([503, 503]);
+      const shouldRetry = mock(() => false);
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: { ...fastRetries, shouldRetry },
+      });
+
+      await expect(client.request("/content/mine")).rejects.toThrow(
+        YotoAPIError,
+      );
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(
+        expect.any(YotoAPIError),
+        expect.objectContaining({ attempt: 0, method: "GET", statusCode: 503 }),
+      );
+    });
+  });
+
+  describe("rate limits", () => {
+    test("should expose Retry-After and rate limit headers on 429 errors", async () => {
+      const retryAt = new Date(Date.now() + 120000);
+      const customFetch = mock(() =>
+        Promise.resolve(
+          new Response(JSON.stringify({ error: { message: "slow down" } }), {
+            status: 429,
+            headers: {
+              "Retry-After": retryAt.toUTCString(),
+              "X-RateLimit-Limit": "100",
+              "X-RateLimit-Remaining": "0",
+              "X-RateLimit-Reset": "120",
+            },
+          }),
+        ),
+      );
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        maxRetries: 0,
+      });
+
+      const error = (await client
+        .request("/content/mine")
+        .catch((e) => e)) as YotoRateLimitError;
+
+      expect(error).toBeInstanceOf(YotoRateLimitError);
+      expect(error.retryAfter).toBeGreaterThanOrEqual(119);
+      expect(error.retryAfter).toBeLessThanOrEqual(120);
+      expect(error.rateLimit).toMatchObject({ limit: 100, remaining: 0 });
+    });
+
+    test("should track rate limit state from successful responses", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve(
+          new Response("{}", {
+            headers: {
+              "X-RateLimit-Limit": "100",
+              "X-RateLimit-Remaining": "42",
+            },
+          }),
+        ),
+      );
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      await client.request("/content/mine");
+
+      expect(client.rateLimit).toEqual({
+        limit: 100,
+        remaining: 42,
+        resetAt: undefined,
+      });
+    });
+
+    test("should wait for the reset when the quota is exhausted", async () => {
+      let calls = 0;
+      const customFetch = mock(() => {
+        calls++;
+        return Promise.resolve(
+          new Response("{}", {
+            headers: {
+              "X-RateLimit-Remaining": calls === 1 ? "0" : "10",
+              "X-RateLimit-Reset": "1",
+            },
+          }),
+        );
+      });
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        rateLimitThrottle: { maxWait: 50 },
+      });
+
+      await client.request("/content/mine");
+      const started = Date.now();
+      await client.request("/content/mine");
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  describe("unauthorized responses", () => {
+    function rotatingAuth(): AuthProvider & { invalidated: string[] } {
+      let current = 1;
+      const invalidated: string[] = [];
+      return {
+        invalidated,
+        getAccessToken: () => Promise.resolve(`token_${current}`),
+        invalidate: (accessToken: string) => {
+          invalidated.push(accessToken);
+          current++;
+        },
+      };
+    }
+
+    test("should invalidate the token and replay once after a 401", async () => {
+      const provider = rotatingAuth();
+      const customFetch = mock(
+        (_input: string | URL | Request, init?: RequestInit) => {
+          const headers = init?.headers as Record<string, string>;
+          return Promise.resolve(
+            headers.Authorization === "Bearer token_2"
+              ? jsonResponse({ ok: 1 })
+              : jsonResponse({ error: { message: "expired" } }, 401),
+          );
+        },
+      );
+      const client = new HttpClient(provider, {
+        fetch: customFetch,
+        maxRetries: 0,
+      });
+
+      const result = await client.requestWithResponse("/content/mine");
+
+      expect(result.data).toEqual({ ok: 1 });
+      expect(result.attempts).toBe(1);
+      expect(provider.invalidated).toEqual(["token_1"]);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("should give up if the replayed request is also rejected", async () => {
+      const provider = rotatingAuth();
+      const customFetch = mock(() =>
+        Promise.resolve(jsonResponse({ error: { message: "revoked" } }, 401)),
+      );
+      const client = new HttpClient(provider, { fetch: customFetch });
+
+      await expect(client.request("/content/mine")).rejects.toThrow(
+        YotoAuthenticationError,
+      );
+      expect(provider.invalidated).toEqual(["token_1"]);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("should not replay for providers without invalidate", async () => {
+      const customFetch = mock(() =>
+        Promise.resolve(jsonResponse({ error: { message: "expired" } }, 401)),
+      );
+      const client = new HttpClient(auth, { fetch: customFetch });
+
+      await expect(client.request("/content/mine")).rejects.toThrow(
+        YotoAuthenticationError,
+      );
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("unauthenticated requests", () => {
+    test("should not send the access token to presigned URLs", async () => {
+      const getAccessToken = mock(() => Promise.resolve("test_token"));
+      const customFetch = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(new Response(null)),
+      );
+      const client = new HttpClient({ getAccessToken }, { fetch: customFetch });
+      const body = Buffer.from("audio");
+
+      await client.request("https://uploads.example.com/a?sig=1", {
+        method: "PUT",
+        authenticate: false,
+        headers: { "Content-Type": "audio/mpeg" },
+        body,
+      });
+
+      const [url, init] = customFetch.mock.calls[0] ?? [];
+      const headers = init?.headers as Record<string, string>;
+      expect(url).toBe("https://uploads.example.com/a?sig=1");
+      expect(headers.Authorization).toBeUndefined();
+      expect(headers["Content-Type"]).toBe("audio/mpeg");
+      expect(init?.body).toBe(body);
+      expect(getAccessToken).not.toHaveBeenCalled();
+    });
+
+    test("should not send client headers or run middleware for other hosts", async () => {
+      const customFetch = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(new Response(null)),
+      );
+      const middleware = mock<Middleware>((request, next) =>
+        next({
+          ...request,
+          headers: { ...request.headers, "X-Api-Key": "from-middleware" },
+        }),
+      );
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        headers: { "X-Api-Key": "secret-key" },
+        middleware: [middleware],
+      });
+
+      await client.request("https://s3.example.com/upload?sig=1", {
+        method: "PUT",
+        authenticate: false,
+        headers: { "Content-Type": "audio/mpeg", "X-Custom": "per-call" },
+        body: Buffer.from("audio"),
+      });
+
+      const init = customFetch.mock.calls[0]?.[1];
+      expect(init?.headers).toEqual({
+        "User-Agent": expect.stringMatching(/^yoto-js\//),
+        "Content-Type": "audio/mpeg",
+      });
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    test("should send stream bodies as they are", async () => {
+      const customFetch = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(new Response(null)),
+      );
+      const client = new HttpClient(auth, { fetch: customFetch });
+      const body = new Blob(["audio"]).stream();
+
+      await client.request("https://uploads.example.com/a", {
+        method: "PUT",
+        authenticate: false,
+        body,
+      });
+
+      const init = customFetch.mock.calls[0]?.[1];
+      expect(init?.body).toBe(body);
+      expect((init as { duplex?: string }).duplex).toBe("half");
+    });
+  });
+
+  describe("response parsing", () => {
+    function clientFor(response: () => Response) {
+      const customFetch = mock(() => Promise.resolve(response()));
+      return {
+        customFetch,
+        client: new HttpClient(auth, {
+          fetch: customFetch,
+          retryPolicy: { baseDelay: 0, jitter: 0 },
+        }),
+      };
+    }
+
+    test("should resolve undefined for 204 responses", async () => {
+      const { client } = clientFor(() => new Response(null, { status: 204 }));
+
+      const result = await client.request("/content/abc123", {
+        method: "DELETE",
+      });
+
+      expect(result).toBeUndefined();
+    });
+
+    test("should resolve undefined for empty JSON bodies", async () => {
+      const { client } = clientFor(
+        () =>
+          new Response("", {
+            headers: { "Content-Type": "application/json" },
+          }),
+      );
+
+      const result = await client.request("/device-v2/dev1/command", {
+        method: "POST",
+        body: { command: "pause" },
+      });
+
+      expect(result).toBeUndefined();
+    });
+
+    test("should return text for text responses", async () => {
+      const { client } = clientFor(
+        () => new Response("OK", { headers: { "Content-Type": "text/plain" } }),
+      );
+
+      expect(await client.request<string>("/content/mine")).toBe("OK");
+    });
+
+    test("should return an ArrayBuffer for binary responses", async () => {
+      const { client } = clientFor(
+        () =>
+          new Response(new Uint8Array([1, 2, 3]), {
+            headers: { "Content-Type": "application/octet-stream" },
+          }),
+      );
+
+      const result = await client.request<ArrayBuffer>("/content/mine");
+
+      expect(new Uint8Array(result)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("should honour an explicit responseType", async () => {
+      const { client } = clientFor(() => jsonResponse({ raw: true }));
+
+      const text = await client.request<string>("/content/mine", {
+        responseType: "text",
+      });
+      const stream = await client.request<ReadableStream>("/content/mine", {
+        responseType: "stream",
+      });
+
+      expect(text).toBe('{"raw":true}');
+      expect(stream).toBeInstanceOf(ReadableStream);
+    });
+
+    test("should let the caller's signal cancel a streamed body", async () => {
+      let fetchSignal: AbortSignal | undefined;
+      const customFetch = (_input: unknown, init?: RequestInit) => {
+        fetchSignal = init?.signal ?? undefined;
+        // Never finishes unless the request is aborted
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("chunk"));
+            fetchSignal?.addEventListener("abort", () =>
+              controller.error(fetchSignal?.reason),
+            );
+          },
+        });
+        return Promise.resolve(new Response(body));
+      };
+      const client = new HttpClient(auth, { fetch: customFetch });
+      const controller = new AbortController();
+
+      const stream = await client.request<ReadableStream<Uint8Array>>(
+        "/media/file",
+        { responseType: "stream", signal: controller.signal },
+      );
+      const reader = stream.getReader();
+      await reader.read();
+      controller.abort(new Error("stop reading"));
+
+      expect(fetchSignal?.aborted).toBe(true);
+      await expect(reader.read()).rejects.toThrow("stop reading");
+    });
+
+    test("should throw without retrying on malformed JSON", async () => {
+      const { client, customFetch } = clientFor(
+        () =>
+          new Response("{not json", {
+            headers: { "Content-Type": "application/json" },
+          }),
+      );
+
+      await expect(client.request("/content/mine")).rejects.toThrow(
+        "Failed to parse JSON response",
+      );
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("raw responses", () => {
+    test("should return data with response details", async () => {
+      let calls = 0;
+      const customFetch = mock(() => {
+        calls++;
+        return Promise.resolve(
+          calls === 1
+            ? jsonResponse({ error: { message: "busy" } }, 503)
+            : new Response(JSON.stringify({ card: { cardId: "abc" } }), {
+                headers: {
+                  "Content-Type": "application/json",
+                  "X-Request-Id": "req_123",
+                },
+              }),
+        );
+      });
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: { baseDelay: 0, jitter: 0 },
+      });
+
+      const result = await client.requestWithResponse<{
+        card: { cardId: string };
+      }>("/content/abc");
+
+      expect(result.data.card.cardId).toBe("abc");
+      expect(result.response.status).toBe(200);
+      expect(result.requestId).toBe("req_123");
+      expect(result.attempts).toBe(2);
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+      expect(client.lastResponse).toBe(result);
+    });
+
+    test("should pass response details to onResponse", async () => {
+      const client = new HttpClient(auth, { fetch: mockFetch({ ok: true }) });
+      const onResponse = mock(() => {});
+
+      await client.request("/content/mine", { onResponse });
+
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { ok: true }, attempts: 1 }),
+      );
+    });
+
+    test("should not retry when onResponse throws", async () => {
+      const customFetch = mockFetch({ ok: true });
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: { baseDelay: 1, jitter: 0 },
+      });
+
+      await expect(
+        client.request("/content/abc", {
+          method: "DELETE",
+          onResponse: () => {
+            throw new Error("callback failed");
+          },
+        }),
+      ).rejects.toThrow("callback failed");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("logging", () => {
+    test("should log requests, responses and retries without secrets", async () => {
+      const events: Record<string, unknown>[] = [];
+      const record = (fields: Record<string, unknown>) => {
+        events.push(fields);
+      };
+      let calls = 0;
+      const customFetch = mock(() =>
+        Promise.resolve(
+          ++calls === 1
+            ? jsonResponse({ error: { message: "busy" } }, 503)
+            : jsonResponse({ ok: true }),
+        ),
+      );
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        retryPolicy: { baseDelay: 0, jitter: 0 },
+        logger: { debug: record, info: record, warn: record, error: record },
+      });
+
+      await client.request("/content/mine");
+
+      expect(events.map((e) => e.event)).toEqual([
+        "request.start",
+        "response",
+        "request.retry",
+        "request.start",
+        "response",
+      ]);
+      expect(events[0]?.headers).toMatchObject({
+        Authorization: "[REDACTED]",
+      });
+      expect(events[2]).toMatchObject({ attempt: 0, delayMs: 0 });
+      expect(JSON.stringify(events)).not.toContain("test_token");
+    });
+  });
+
+  describe("tracing", () => {
+    interface RecordedSpan {
+      name: string;
+      kind?: number;
+      attributes: SpanAttributes;
+      status?: { code: number; message?: string };
+      exceptions: Error[];
+      ended: boolean;
+    }
+
+    function createTracer() {
+      const spans: RecordedSpan[] = [];
+      const tracer: Tracer = {
+        startSpan(name, options) {
+          const recorded: RecordedSpan = {
+            name,
+            kind: options?.kind,
+            attributes: { ...options?.attributes },
+            exceptions: [],
+            ended: false,
+          };
+          spans.push(recorded);
+          const span: Span = {
+            setAttribute: (key, value) => {
+              recorded.attributes[key] = value;
+            },
+            setStatus: (status) => {
+              recorded.status = status;
+            },
+            recordException: (error) => {
+              recorded.exceptions.push(error);
+            },
+            spanContext: () => ({
+              traceId: "0af7651916cd43dd8448eb211c80319c",
+              spanId: "b7ad6b7169203331",
+              traceFlags: 1,
+            }),
+            end: () => {
+              recorded.ended = true;
+            },
+          };
+          return span;
+        },
+      };
+      return { tracer, spans };
+    }
+
+    test("should wrap calls in a client span with route attributes", async () => {
+      const { tracer, spans } = createTracer();
+      const customFetch = mock(
+        (_input: string | URL | Request, _init?: RequestInit) =>
+          Promise.resolve(
+            new Response("{}", { headers: { "X-Request-Id": "req_1" } }),
+          ),
+      );
+      const client = new HttpClient(auth, {
+        fetch: customFetch,
+        tracing: { tracer },
+      });
+
+      await client.request("/device-v2/dev1/status", {
+        operation: "devices.getStatus",
+        route: "/device-v2/{deviceId}/status",
+      });
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: "devices.getStatus",
+        kind: 2,
+        status: { code: 1 },
+        ended: true,
+        attributes: {
+          "yoto.operation": "devices.getStatus",
+          "http.request.method": "GET",
+          "url.template": "/device-v2/{deviceId}/status",
+          "yoto.path.deviceId": "dev1",
+          "http.response.status_code": 200,
+          "http.request.resend_count": 0,
+          "yoto.request_id": "req_1",
+        },
+      });
+
+      const headers = customFetch.mock.calls[0]?.[1]?.headers as Record<
+        string,
+        string
+      >;
+      expect(headers.traceparent).toBe(
+        "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      );
+    });
+
+    test("should only record the host for unauthenticated requests", async () => {
+      const { tracer, spans } = createTracer();
+      const client = new HttpClient(auth, {
+        fetch: () => Promise.resolve(new Response(null)),
+        tracing: { tracer },
+      });
+
+      await client.request(
+        "https://s3.example.com/upload?X-Amz-Signature=sig",
+        {
+          operation: "media.uploadAudio",
+          method: "PUT",
+          authenticate: false,
+          body: Buffer.from("audio"),
+        },
+      );
+
+      expect(spans[0]?.name).toBe("media.uploadAudio");
+      expect(spans[0]?.attributes).toEqual({
+        "yoto.operation": "media.uploadAudio",
+        "http.request.method": "PUT",
+        "server.address": "s3.example.com",
+        "http.request.resend_count": 0,
+        "http.response.status_code": 200,
+      });
+    });
+
+    test("should record failures and retry counts", async () => {
+      const { tracer, spans } = createTracer();
+      const client = new HttpClient(auth, {
+        fetch: () =>
+          Promise.resolve(jsonResponse({ error: { message: "down" } }, 503)),
+        maxRetries: 1,
+        retryPolicy: { baseDelay: 0, jitter: 0 },
+        tracing: { tracer },
+      });
+
+      await expect(client.request("/content/mine")).rejects.toThrow("down");
+
+      expect(spans[0]).toMatchObject({
+        name: "GET /content/mine",
+        status: { code: 2, message: "down" },
+        ended: true,
+        attributes: {
+          "http.response.status_code": 503,
+          "http.request.resend_count": 1,
+        },
+      });
+      expect(spans[0]?.exceptions).toHaveLength(1);
+    });
+
+    test("should use a custom trace context injector", async () => {
+      const { tracer } = createTracer();
+      const seen: MiddlewareRequest[] = [];
+      const client = new HttpClient(auth, {
+        middleware: [
+          async (request) => {
+            seen.push(request);
+            return jsonResponse({});
+          },
+        ],
+        tracing: {
+          tracer,
+          inject: (span, headers) => {
+            headers["X-B3-TraceId"] = span.spanContext().traceId;
+          },
+        },
+      });
+
+      await client.request("/content/mine");
+
+      expect(seen[0]?.headers["X-B3-TraceId"]).toBe(
+        "0af7651916cd43dd8448eb211c80319c",
+      );
+      expect(seen[0]?.headers.traceparent).toBeUndefined();
+    });
+  });
+
+  describe("middleware", () => {
+    test("should short-circuit with a stubbed response", async () => {
+      const seen: MiddlewareRequest[] = [];
+      const stub: Middleware = async (request) => {
+        seen.push(request);
+        return jsonResponse({ ok: true });
+      };
+      const client = new HttpClient(auth, { middleware: [stub] });
+
+      const result = await client.request<{ ok: boolean }>("/content/mine");
+
+      expect(result).toEqual({ ok: true });
+      expect(seen[0]?.url).toBe("https://api.yotoplay.com/content/mine");
+      expect(seen[0]?.method).toBe("GET");
+      expect(seen[0]?.headers.Authorization).toBe("Bearer test_token");
+    });
+
+    test("should run middleware in order and allow request changes", async () => {
+      const order: string[] = [];
+      const addHeader: Middleware = async (request, next) => {
+        order.push("outer:before");
+        const response = await next({
+          ...request,
+          headers: { ...request.headers, "X-Trace": "abc" },
+        });
+        order.push("outer:after");
+        return response;
+      };
+      const stub: Middleware = async (request) => {
+        order.push("inner");
+        return jsonResponse({ trace: request.headers["X-Trace"] });
+      };
+      const client = new HttpClient(auth, { middleware: [addHeader, stub] });
+
+      const result = await client.request<{ trace: string }>("/content/mine");
+
+      expect(result.trace).toBe("abc");
+      expect(order).toEqual(["outer:before", "inner", "outer:after"]);
+    });
+
+    test("should let middleware retry by calling next again", async () => {
+      let calls = 0;
+      const retryOnce: Middleware = async (request, next) => {
+        const response = await next(request);
+        return response.status === 503 ? next(request) : response;
+      };
+      const stub: Middleware = async () => {
+        calls++;
+        return calls === 1
+          ? jsonResponse({ error: { message: "busy" } }, 503)
+          : jsonResponse({ attempt: calls });
+      };
+      const client = new HttpClient(auth, {
+        middleware: [retryOnce, stub],
+      });
+
+      const result = await client.request<{ attempt: number }>("/content/mine");
+
+      expect(result.attempt).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, mock, test } from "bun:test";
+import { logEvent, redact } from "../src/logger.ts";
+import type { Logger } from "../src/types";
+
+function createLogger(): Logger {
+  return {
+    debug: mock(() => {}),
+    info: mock(() => {}),
+    warn: mock(() => {}),
+    error: mock(() => {}),
+  };
+}
+
+describe("redact", () => {
+  test("should mask sensitive keys at any depth", () => {
+    expect(
+      redact({
+        headers: { Authorization: "Bearer abc", Accept: "application/json" },
+        tokens: { access_token: "a", refresh_token: "r" },
+        device_code: "d",
+        user_code: "ABCD-EFGH",
+      }),
+    ).toEqual({
+      headers: { Authorization: "[REDACTED]", Accept: "application/json" },
+      tokens: { access_token: "[REDACTED]", refresh_token: "[REDACTED]" },
+      device_code: "[REDACTED]",
+      user_code: "ABCD-EFGH",
+    });
+  });
+
+  test("should mask bearer tokens in free-form strings", () => {
+    expect(redact(["Bearer secret"])).toEqual(["Bearer [REDACTED]"]);
+  });
+
+  test("should mask sensitive URL query parameters", () => {
+    expect(redact("https://example.com/callback?code=abc&state=xyz")).toBe(
+      "https://example.com/callback?code=%5BREDACTED%5D&state=xyz",
+    );
+  });
+
+  test("should mask presigned URL signatures", () => {
+    expect(
+      redact(
+        "https://uploads.example.com/a.mp3?X-Amz-Credential=key&X-Amz-Signature=sig",
+      ),
+    ).toBe(
+      "https://uploads.example.com/a.mp3?X-Amz-Credential=%5BREDACTED%5D&X-Amz-Signature=%5BREDACTED%5D",
+    );
+  });
+
+  test("should reduce errors to name and message", () => {
+    expect(redact({ error: new TypeError("boom") })).toEqual({
+      error: { name: "TypeError", message: "boom" },
+    });
+  });
+});
+
+describe("logEvent", () => {
+  test("should call the logger with redacted fields and a message", () => {
+    const logger = createLogger();
+
+    logEvent(logger, "info", "token.refresh.start", { refreshToken: "r" });
+
+    expect(logger.info).toHaveBeenCalledWith(
+      { event: "token.refresh.start", refreshToken: "[REDACTED]" },
+      "yoto-js: token.refresh.start",
+    );
+  });
+
+  test("should swallow logger errors", () => {
+    const logger = createLogger();
+    logger.warn = () => {
+      throw new Error("logger broke");
+    };
+
+    expect(() => logEvent(logger, "warn", "request.retry")).not.toThrow();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, mock, test } from "bun:test";
+import { get } from "node:http";
+import { YotoAuthenticationError, YotoOAuthError } from "../src/error.ts";
+import { YotoLoopbackAuth } from "../src/loopback-auth.ts";
+
+const tokenFetch = () =>
+  mock((_input: string | URL | Request, _init?: RequestInit) =>
+    Promise.resolve(
+      new Response(
+        JSON.stringify({
+          access_token: "access_123",
+          refresh_token: "refresh_123",
+          expires_in: 3600,
+          token_type: "Bearer",
+        }),
+      ),
+    ),
+  );
+
+// Simulates the browser following the authorization server's redirect
+// Uses node:http rather than fetch, which other suites replace with mocks
+function redirectTo(
+  authUrl: string,
+  params: (state: string) => Record<string, string>,
+) {
+  const url = new URL(authUrl);
+  const callback = new URL(url.searchParams.get("redirect_uri") ?? "");
+  const state = url.searchParams.get("state") ?? "";
+  for (const [key, value] of Object.entries(params(state))) {
+    callback.searchParams.set(key, value);
+  }
+  return new Promise<{ status?: number }>((resolve, reject) => {
+    get(callback, (response) => {
+      response.resume();
+      resolve({ status: response.statusCode });
+    }).on("error", reject);
+  });
+}
+
+describe("YotoLoopbackAuth", () => {
+  test("should catch the redirect and exchange the code", async () => {
+    const customFetch = tokenFetch();
+    const auth = new YotoLoopbackAuth("test_client_id", {
+      fetch: customFetch,
+    });
+    let callbackStatus: number | undefined;
+
+    const tokens = await auth.login({
+      openUrl: async (url) => {
+        const response = await redirectTo(url, (state) => ({
+          code: "code_123",
+          state,
+        }));
+        callbackStatus = response.status;
+      },
+    });
+
+    expect(tokens.access_token).toBe("access_123");
+    expect(callbackStatus).toBe(200);
+    const [, init] = customFetch.mock.calls[0] ?? [];
+    const body = init?.body as URLSearchParams;
+    expect(body.get("code")).toBe("code_123");
+    expect(body.get("redirect_uri")).toMatch(
+      /^http:\/\/127\.0\.0\.1:\d+\/callback$/,
+    );
+  });
+
+  test("should ignore callbacks with the wrong state", async () => {
+    const customFetch = tokenFetch();
+    const auth = new YotoLoopbackAuth("test_client_id", {
+      fetch: customFetch,
+    });
+    const statuses: (number | undefined)[] = [];
+
+    const tokens = await auth.login({
+      openUrl: async (url) => {
+        for (const params of [
+          () => ({ code: "forged_code", state: "forged" }),
+          () => ({ error: "access_denied", state: "forged" }),
+          (state: string) => ({ code: "code_123", state }),
+        ]) {
+          statuses.push((await redirectTo(url, params)).status);
+        }
+      },
+    });
+
+    expect(tokens.access_token).toBe("access_123");
+    expect(statuses).toEqual([400, 400, 200]);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    const [, init] = customFetch.mock.calls[0] ?? [];
+    expect((init?.body as URLSearchParams).get("code")).toBe("code_123");
+  });
+
+  test("should surface authorization errors from the callback", async () => {
+    const auth = new YotoLoopbackAuth("test_client_id", {
+      fetch: tokenFetch(),
+    });
+
+    await expect(
+      auth.login({
+        openUrl: (url) => {
+          redirectTo(url, (state) => ({
+            error: "access_denied",
+            error_description: "User cancelled",
+            state,
+          }));
+        },
+      }),
+    ).rejects.toThrow(YotoOAuthError);
+  });
+
+  test("should time out if no callback arrives", async () => {
+    const auth = new YotoLoopbackAuth("test_client_id", {
+      fetch: tokenFetch(),
+    });
+
+    await expect(
+      auth.login({ openUrl: () => {}, timeout: 50 }),
+    ).rejects.toThrow(YotoAuthenticationError);
+  });
+
+  test("should stop waiting when the signal aborts", async () => {
+    const auth = new YotoLoopbackAuth("test_client_id", {
+      fetch: tokenFetch(),
+    });
+    const controller = new AbortController();
+
+    const pending = auth.login({
+      openUrl: () => {
+        setTimeout(() => controller.abort(new Error("cancelled")), 10);
+      },
+      signal: controller.signal,
+    });
+
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+});
@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { YotoTranscodeTimeoutError } from "../src/error.ts";
 import { MediaResource } from "../src/resources/media.ts";
 import type { HttpClient } from "../src/http-client.ts";
 
@@ -28,7 +29,11 @@ describe("MediaResource", () => {
 
     expect(mockClient.request).toHaveBeenCalledWith(
       "/media/transcode/audio/uploadUrl",
-      { method: "GET" },
+      {
+        method: "GET",
+        operation: "media.getAudioUploadUrl",
+        route: "/media/transcode/audio/uploadUrl",
+      },
     );
     expect(result).toEqual(mockResponse);
   });
@@ -50,6 +55,8 @@ describe("MediaResource", () => {
       "/media/upload/upload-123/transcoded",
       {
         method: "GET",
+        operation: "media.getTranscodeStatus",
+        route: "/media/upload/{uploadId}/transcoded",
         query: { loudnorm: false },
       },
     );
@@ -63,6 +70,8 @@ describe("MediaResource", () => {
       "/media/upload/upload-123/transcoded",
       {
         method: "GET",
+        operation: "media.getTranscodeStatus",
+        route: "/media/upload/{uploadId}/transcoded",
         query: { loudnorm: true },
       },
     );
@@ -86,6 +95,8 @@ describe("MediaResource", () => {
       "/media/coverImage/user/me/upload",
       {
         method: "POST",
+        operation: "media.uploadCoverImage",
+        route: "/media/coverImage/user/me/upload",
         query: {
           autoconvert: true,
           coverType: "default",
@@ -111,6 +122,8 @@ describe("MediaResource", () => {
       "/media/coverImage/user/me/upload",
       {
         method: "POST",
+        operation: "media.uploadCoverImage",
+        route: "/media/coverImage/user/me/upload",
         query: {
           autoconvert: false,
           coverType: "custom",
@@ -122,5 +135,228 @@ describe("MediaResource", () => {
       },
     );
   });
-});
 
+  describe("waitForTranscode", () => {
+    const pending = { transcode: {} };
+    const done = {
+      transcode: {
+        transcodedSha256: "sha256hash",
+        transcodedInfo: { duration: 120, format: "mp3" },
+      },
+    };
+
+    test("should poll until the transcode has finished", async () => {
+      (mockClient.request as ReturnType<typeof mock>)
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce({
+          transcode: { transcodedSha256: "sha256hash" },
+        })
+        .mockResolvedValueOnce(done);
+      const onProgress = mock(() => {});
+
+      const result = await media.waitForTranscode("upload-123", {
+        loudnorm: true,
+        pollInterval: 1,
+        onProgress,
+      });
+
+      expect(result).toEqual(done.transcode);
+      expect(mockClient.request).toHaveBeenCalledTimes(3);
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "/media/upload/upload-123/transcoded",
+        expect.objectContaining({ query: { loudnorm: true } }),
+      );
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          uploadId: "upload-123",
+          attempt: 3,
+          transcode: done.transcode,
+        }),
+      );
+    });
+
+    test("should back off between polls", async () => {
+      (mockClient.request as ReturnType<typeof mock>)
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce(pending)
+        .mockResolvedValueOnce(done);
+      const polledAt: number[] = [];
+
+      await media.waitForTranscode("upload-123", {
+        pollInterval: 20,
+        maxPollInterval: 40,
+        onProgress: () => polledAt.push(Date.now()),
+      });
+
+      const delays = polledAt
+        .slice(1)
+        .map((time, i) => time - (polledAt[i] ?? time));
+      expect(delays[0]).toBeGreaterThanOrEqual(15);
+      expect(delays[1]).toBeGreaterThanOrEqual(35);
+      expect(delays[2]).toBeGreaterThanOrEqual(35);
+      expect(delays[2]).toBeLessThan(70);
+    });
+
+    test("should throw YotoTranscodeTimeoutError after the deadline", async () => {
+      (mockClient.request as ReturnType<typeof mock>).mockResolvedValue(
+        pending,
+      );
+
+      const promise = media.waitForTranscode("upload-123", {
+        transcodeTimeout: 30,
+        pollInterval: 10,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(YotoTranscodeTimeoutError);
+      await expect(promise).rejects.toMatchObject({
+        uploadId: "upload-123",
+        timeout: 30,
+      });
+    });
+
+    test("should not let a slow poll run past the deadline", async () => {
+      // Settles only by rejecting once the request signal aborts
+      (mockClient.request as ReturnType<typeof mock>).mockImplementation(
+        (_path: string, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener("abort", () =>
+              reject(options.signal?.reason),
+            );
+          }),
+      );
+
+      const startedAt = Date.now();
+      await expect(
+        media.waitForTranscode("upload-123", { transcodeTimeout: 50 }),
+      ).rejects.toBeInstanceOf(YotoTranscodeTimeoutError);
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(mockClient.request).toHaveBeenCalledWith(
+        "/media/upload/upload-123/transcoded",
+        expect.objectContaining({ timeout: expect.any(Number) }),
+      );
+      const { timeout } = (mockClient.request as ReturnType<typeof mock>).mock
+        .calls[0]?.[1] as { timeout: number };
+      expect(timeout).toBeLessThanOrEqual(50);
+    });
+
+    test("should stop polling when aborted", async () => {
+      (mockClient.request as ReturnType<typeof mock>).mockResolvedValue(
+        pending,
+      );
+      const controller = new AbortController();
+      const reason = new Error("cancelled");
+
+      const promise = media.waitForTranscode("upload-123", {
+        pollInterval: 1000,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(reason), 10);
+
+      await expect(promise).rejects.toBe(reason);
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("uploadAudio", () => {
+    beforeEach(() => {
+      (mockClient.request as ReturnType<typeof mock>).mockImplementation(
+        (path: string) =>
+          Promise.resolve(
+            path === "/media/transcode/audio/uploadUrl"
+              ? {
+                  upload: {
+                    uploadUrl: "https://uploads.example.com/audio?sig=1",
+                    uploadId: "upload-123",
+                  },
+                }
+              : "",
+          ),
+      );
+    });
+
+    test("should PUT to the presigned URL without the access token", async () => {
+      const file = new File(["audio data"], "song.m4a");
+      const onProgress = mock(() => {});
+
+      const uploadId = await media.uploadAudio(file, { onProgress });
+
+      expect(uploadId).toBe("upload-123");
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "https://uploads.example.com/audio?sig=1",
+        {
+          operation: "media.uploadAudio",
+          method: "PUT",
+          authenticate: false,
+          headers: { "Content-Type": "audio/mp4" },
+          body: file,
+          responseType: "text",
+        },
+      );
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 0, total: 10 });
+      expect(onProgress).toHaveBeenNthCalledWith(2, { loaded: 10, total: 10 });
+    });
+
+    test("should detect the content type from the audio data", async () => {
+      const wav = Buffer.from("RIFF\0\0\0\0WAVEfmt ");
+
+      await media.uploadAudio(wav);
+
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "https://uploads.example.com/audio?sig=1",
+        expect.objectContaining({ headers: { "Content-Type": "audio/wav" } }),
+      );
+    });
+
+    test("should detect the content type of an untyped Blob", async () => {
+      await media.uploadAudio(new Blob(["OggS", "x".repeat(1024)]));
+
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "https://uploads.example.com/audio?sig=1",
+        expect.objectContaining({ headers: { "Content-Type": "audio/ogg" } }),
+      );
+    });
+
+    test("should prefer an explicit content type", async () => {
+      await media.uploadAudio(Buffer.from("ID3"), { contentType: "audio/ogg" });
+
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "https://uploads.example.com/audio?sig=1",
+        expect.objectContaining({ headers: { "Content-Type": "audio/ogg" } }),
+      );
+    });
+
+    test("should stream without retries and report bytes read", async () => {
+      (mockClient.request as ReturnType<typeof mock>).mockImplementation(
+        async (path: string, options: { body?: unknown }) => {
+          if (path === "/media/transcode/audio/uploadUrl") {
+            return {
+              upload: {
+                uploadUrl: "https://uploads.example.com/a",
+                uploadId: "1",
+              },
+            };
+          }
+          // Drain the body as fetch would
+          await new Response(options.body as ReadableStream).arrayBuffer();
+          return "";
+        },
+      );
+      const onProgress = mock(() => {});
+
+      await media.uploadAudio(new Blob(["chunk"]).stream(), { onProgress });
+
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        "https://uploads.example.com/a",
+        expect.objectContaining({
+          maxRetries: 0,
+          headers: { "Content-Type": "audio/mpeg" },
+        }),
+      );
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5 });
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { parseRateLimitHeaders, parseRetryAfter } from "../src/rate-limit.ts";
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  test("should parse delta seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120);
+  });
+
+  test("should parse an HTTP-date", () => {
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30);
+  });
+
+  test("should clamp dates in the past to zero", () => {
+    expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+  });
+
+  test("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("parseRateLimitHeaders", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  test("should read X-RateLimit headers with a delta reset", () => {
+    const headers = new Headers({
+      "X-RateLimit-Limit": "100",
+      "X-RateLimit-Remaining": "7",
+      "X-RateLimit-Reset": "60",
+    });
+
+    expect(parseRateLimitHeaders(headers, now)).toEqual({
+      limit: 100,
+      remaining: 7,
+      resetAt: new Date(now + 60000),
+    });
+  });
+
+  test("should read a Unix timestamp reset", () => {
+    const headers = new Headers({ "X-RateLimit-Reset": "1735689700" });
+
+    expect(parseRateLimitHeaders(headers, now)?.resetAt).toEqual(
+      new Date(1735689700 * 1000),
+    );
+  });
+
+  test("should return undefined without rate limit headers", () => {
+    expect(parseRateLimitHeaders(new Headers(), now)).toBeUndefined();
+  });
+});
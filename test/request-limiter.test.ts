@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { RequestLimiter } from "../src/request-limiter.ts";
+
+describe("RequestLimiter", () => {
+  test("should cap requests in flight and report queue depth", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2 });
+
+    const first = await limiter.acquire();
+    const second = await limiter.acquire();
+    const third = limiter.acquire();
+
+    expect(limiter.stats).toEqual({ queued: 1, inFlight: 2 });
+
+    first();
+    const release = await third;
+    expect(limiter.stats).toEqual({ queued: 0, inFlight: 2 });
+
+    second();
+    release();
+    expect(limiter.stats).toEqual({ queued: 0, inFlight: 0 });
+  });
+
+  test("should serve waiters in arrival order", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+
+    const held = await limiter.acquire();
+    const waiters = [1, 2, 3].map((n) =>
+      limiter.acquire().then((release) => {
+        order.push(n);
+        release();
+      }),
+    );
+    held();
+    await Promise.all(waiters);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  test("should throttle to the configured rate after the burst", async () => {
+    const limiter = new RequestLimiter({ requestsPerSecond: 50, burst: 1 });
+
+    const started = Date.now();
+    for (let i = 0; i < 3; i++) {
+      (await limiter.acquire())();
+    }
+
+    // Two refills at 50/s take about 40ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+  });
+
+  test("should drop aborted waiters from the queue", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const held = await limiter.acquire();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error("cancelled"));
+
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.stats).toEqual({ queued: 0, inFlight: 1 });
+    held();
+  });
+
+  test("should ignore repeated releases", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 });
+
+    const release = await limiter.acquire();
+    release();
+    release();
+
+    expect(limiter.stats.inFlight).toBe(0);
+  });
+
+  test("should reject limits that would stall requests", () => {
+    expect(() => new RequestLimiter({ requestsPerSecond: 0 })).toThrow(
+      RangeError,
+    );
+    expect(() => new RequestLimiter({ maxConcurrent: 0 })).toThrow(
+      "limiter.maxConcurrent must be greater than 0, got 0",
+    );
+    expect(() => new RequestLimiter({ burst: -1 })).toThrow(RangeError);
+    expect(() => new RequestLimiter({ requestsPerSecond: Number.NaN })).toThrow(
+      RangeError,
+    );
+  });
+});
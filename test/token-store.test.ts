@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  EncryptedFileTokenStore,
+  FileTokenStore,
+  MemoryTokenStore,
+} from "../src/token-store.ts";
+
+const tokens = {
+  access_token: "access_123",
+  refresh_token: "refresh_123",
+  expires_in: 3600,
+  token_type: "Bearer",
+};
+
+describe("MemoryTokenStore", () => {
+  test("should save, load and clear tokens", async () => {
+    const store = new MemoryTokenStore();
+
+    expect(await store.load()).toBeUndefined();
+    await store.save(tokens);
+    expect(await store.load()).toEqual(tokens);
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+  });
+});
+
+describe("file token stores", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "yoto-js-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("FileTokenStore", () => {
+    test("should return undefined when no file exists", async () => {
+      const store = new FileTokenStore(join(dir, "tokens.json"));
+      expect(await store.load()).toBeUndefined();
+    });
+
+    test("should write tokens readable only by the owner", async () => {
+      const path = join(dir, "nested", "tokens.json");
+      const store = new FileTokenStore(path);
+
+      await store.save(tokens);
+
+      expect(await store.load()).toEqual(tokens);
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+      expect(await readdir(join(dir, "nested"))).toEqual(["tokens.json"]);
+    });
+
+    test("should remove the file on clear", async () => {
+      const store = new FileTokenStore(join(dir, "tokens.json"));
+
+      await store.save(tokens);
+      await store.clear();
+
+      expect(await store.load()).toBeUndefined();
+    });
+  });
+
+  describe("EncryptedFileTokenStore", () => {
+    test("should round-trip tokens without storing them in plain text", async () => {
+      const path = join(dir, "tokens.enc");
+      const store = new EncryptedFileTokenStore(path, "correct horse");
+
+      await store.save(tokens);
+
+      expect(await readFile(path, "utf8")).not.toContain("refresh_123");
+      expect(await store.load()).toEqual(tokens);
+    });
+
+    test("should fail to load with the wrong secret", async () => {
+      const path = join(dir, "tokens.enc");
+      await new EncryptedFileTokenStore(path, "correct horse").save(tokens);
+
+      await expect(
+        new EncryptedFileTokenStore(path, "wrong secret").load(),
+      ).rejects.toThrow();
+    });
+  });
+});
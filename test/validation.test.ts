@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import { ContentBuilder } from "../src/content-builder.ts";
+import type { ContentData, Track } from "../src/types";
+import { validateContent } from "../src/validation.ts";
+
+function track(overrides: Partial<Track> = {}): Track {
+  return {
+    key: "01",
+    title: "Track 1",
+    trackUrl: "yoto:#abc123",
+    overlayLabel: "1",
+    format: "mp3",
+    type: "audio",
+    ...overrides,
+  };
+}
+
+describe("validateContent", () => {
+  test("should accept content from ContentBuilder", () => {
+    const { content } = new ContentBuilder("Valid")
+      .addAudioChapter({ transcodedSha256: "abc123" })
+      .addStreamChapter("https://example.com/stream.mp3")
+      .config({ resumeTimeout: 60 })
+      .build();
+
+    expect(validateContent(content)).toEqual([]);
+  });
+
+  test("should report duplicate chapter and track keys", () => {
+    const content: ContentData = {
+      chapters: [
+        { key: "01", tracks: [track(), track()] },
+        { key: "01", tracks: [track()] },
+      ],
+    };
+
+    expect(validateContent(content)).toEqual([
+      {
+        path: "$.chapters[0].tracks[1].key",
+        code: "duplicate_key",
+        message: 'key "01" is already used',
+      },
+      {
+        path: "$.chapters[1].key",
+        code: "duplicate_key",
+        message: 'key "01" is already used',
+      },
+    ]);
+  });
+
+  test("should reject unsupported track URLs", () => {
+    const content: ContentData = {
+      chapters: [
+        {
+          key: "01",
+          tracks: [
+            track({ key: "01", trackUrl: "ftp://example.com/a.mp3" }),
+            track({
+              key: "02",
+              type: "stream",
+              trackUrl: "yoto:#abc123",
+            }),
+          ],
+        },
+      ],
+    };
+
+    const paths = validateContent(content).map((issue) => issue.path);
+    expect(paths).toEqual([
+      "$.chapters[0].tracks[0].trackUrl",
+      "$.chapters[0].tracks[1].trackUrl",
+    ]);
+  });
+
+  test("should reject stream tracks with a file size", () => {
+    const content: ContentData = {
+      chapters: [
+        {
+          key: "01",
+          tracks: [
+            track({
+              type: "stream",
+              trackUrl: "https://example.com/stream.mp3",
+              fileSize: 1024,
+            }),
+          ],
+        },
+      ],
+    };
+
+    expect(validateContent(content)).toEqual([
+      {
+        path: "$.chapters[0].tracks[0].fileSize",
+        code: "invalid_value",
+        message: "stream tracks must not have a fileSize",
+      },
+    ]);
+  });
+
+  test("should reject a negative resumeTimeout", () => {
+    const issues = validateContent({
+      chapters: [],
+      config: { resumeTimeout: -1 },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "$.config.resumeTimeout",
+    ]);
+  });
+});
@@ -26,6 +26,11 @@ describe("Yoto Client", () => {
     expect(client).toBeDefined();
   });
 
+  test("should report empty queue stats without a limiter", () => {
+    const client = new Yoto({ accessToken: "test_access_token" });
+    expect(client.queueStats).toEqual({ queued: 0, inFlight: 0 });
+  });
+
   test("should throw error when no auth provided", () => {
     expect(() => new Yoto({} as any)).toThrow();
   });